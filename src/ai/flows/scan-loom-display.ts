@@ -23,9 +23,13 @@ export type ScanLoomDisplayInput = z.infer<typeof ScanLoomDisplayInputSchema>;
 const ScanLoomDisplayOutputSchema = z.object({
   date: z.string().optional().describe('The date displayed on the loom. DD/MM/YYYY'),
   time: z.string().optional().describe('The time displayed on the loom. HH:MM'),
-  shift: z.string().optional().describe('The shift. "A" is Day, "B" is Night.'),
+  shift: z.string().optional().describe('The shift letter shown on the display, e.g. "A", "B" or "C".'),
   machineNo: z.string().optional().describe('The machine number from the steel plate at the bottom.'),
   stops: z.string().optional().describe('The value from "All stops".'),
+  warpStops: z.string().optional().describe('The value from "Warp stops", if shown.'),
+  weftStops: z.string().optional().describe('The value from "Weft stops", if shown.'),
+  lenoStops: z.string().optional().describe('The value from "Leno stops", if shown.'),
+  otherStops: z.string().optional().describe('The value from "Other stops", if shown.'),
   weftMeter: z.string().optional().describe('The value from "Cloth length".'),
   total: z.string().optional().describe('The total time from "Total time". HH:MM:SS'),
   run: z.string().optional().describe('The run time from "Run time len". HH:MM:SS'),
@@ -46,9 +50,10 @@ Analyze the image provided and extract the following fields. Be meticulous and e
 
 1.  **Date**: Find the date on the display. It should be in DD/MM/YYYY format.
 2.  **Time**: Find the time on the display. It should be in HH:MM format.
-3.  **Shift**: Identify the shift. Look for a letter, usually 'A' or 'B'. 'A' corresponds to the 'Day' shift, and 'B' corresponds to the 'Night' shift.
+3.  **Shift**: Identify the shift. Look for a single letter, usually 'A', 'B' or 'C'. Return the letter exactly as displayed; the app maps it to the configured shift.
 4.  **Machine No.**: This is a critical field. The machine number is physically engraved on a steel plate located at the very bottom of the image, separate from the digital screen. Extract only the numeric value from this plate.
 5.  **Stops**: Locate the field labeled "All stops" on the digital display and extract its numeric value.
+    - **Stop Breakdown**: Many displays also list stops by cause. If present, extract "Warp stops", "Weft stops", "Leno stops" and "Other stops" into their own fields. Leave them blank if the display does not show them; never derive them from "All stops".
 6.  **Weft Meter**: Locate the field labeled "Cloth length" on the digital display. This is the weft meter value. Extract the numeric value.
 7.  **Total Time**: Find the "Total time" field on the display and extract its value. Ensure the format is HH:MM:SS.
 8.  **Run Time**: Find the "Run time len" field on the display. This is the run time. Extract its value. Ensure the format is HH:MM:SS.
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SYNC_PAGE_SIZE } from '@/lib/sync-backend';
+import { checkSyncToken } from '@/lib/sync-auth';
+import { isSyncTable, getRows, getRow, upsertRow, deleteRow, deleteAllRows } from '@/lib/sqlite-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ table: string }> };
+
+const getTable = async (context: RouteContext): Promise<string | null> => {
+  const { table } = await context.params;
+  return isSyncTable(table) ? table : null;
+};
+
+const unknownTable = () => NextResponse.json({ error: 'Unknown table.' }, { status: 404 });
+
+// The row with ?id= (null when missing), or a page of rows from ?offset=&limit=, optionally edited after ?since=
+export async function GET(request: NextRequest, context: RouteContext) {
+  const denied = checkSyncToken(request);
+  if (denied) return denied;
+  const table = await getTable(context);
+  if (!table) return unknownTable();
+  const { searchParams } = request.nextUrl;
+  const id = searchParams.get('id');
+  if (id) return NextResponse.json(getRow(table, id));
+
+  const offset = Math.max(0, Number(searchParams.get('offset')) || 0);
+  const limit = Math.min(SYNC_PAGE_SIZE, Math.max(1, Number(searchParams.get('limit')) || SYNC_PAGE_SIZE));
+  return NextResponse.json(getRows(table, { since: searchParams.get('since') ?? undefined, offset, limit }));
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const denied = checkSyncToken(request);
+  if (denied) return denied;
+  const table = await getTable(context);
+  if (!table) return unknownTable();
+  const row = await request.json().catch(() => null);
+  if (!row || typeof row.id !== 'string') {
+    return NextResponse.json({ error: 'Row must have an id.' }, { status: 400 });
+  }
+  upsertRow(table, row);
+  return new NextResponse(null, { status: 204 });
+}
+
+// Deletes the row with ?id=, or every row with ?all=1
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const denied = checkSyncToken(request);
+  if (denied) return denied;
+  const table = await getTable(context);
+  if (!table) return unknownTable();
+  const { searchParams } = request.nextUrl;
+  const id = searchParams.get('id');
+  if (id) {
+    deleteRow(table, id);
+  } else if (searchParams.get('all') === '1') {
+    deleteAllRows(table);
+  } else {
+    return NextResponse.json({ error: 'Pass ?id= to delete a row, or ?all=1 to delete every row.' }, { status: 400 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,39 @@
+import type { NextRequest } from 'next/server';
+import { onChange } from '@/lib/sqlite-store';
+import { checkSyncToken } from '@/lib/sync-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Keeps idle connections from being closed by proxies
+const KEEP_ALIVE_MS = 25000;
+
+// Server-sent events with every change written through the sync routes, for realtime updates on other devices
+export async function GET(request: NextRequest) {
+  const denied = checkSyncToken(request);
+  if (denied) return denied;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      const unsubscribe = onChange(change => send(`data: ${JSON.stringify(change)}\n\n`));
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      send(': connected\n\n');
+      request.signal.addEventListener('abort', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        controller.close();
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { getBeamStatus, sortBeams } from '@/lib/beams';
+import { compareMachineNo, sortMachines } from '@/lib/machines';
+import { getQualityMap, getQualityName, sortQualities } from '@/lib/qualities';
+import type { Beam } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { PlusCircle, Edit, Trash2, CircleStop } from 'lucide-react';
+
+const beamSchema = z.object({
+  beamNo: z.string().trim().min(1, 'Beam No. is required.'),
+  machineNo: z.string().min(1, 'Machine No. is required.'),
+  qualityId: z.string(),
+  length: z.coerce.number().positive('Length must be greater than 0.'),
+  gaitingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date.'),
+  finishedDate: z.string(),
+}).refine(values => !values.finishedDate || values.finishedDate >= values.gaitingDate, {
+  message: 'Cannot finish before gaiting.',
+  path: ['finishedDate'],
+});
+
+type BeamFormValues = z.infer<typeof beamSchema>;
+
+const EMPTY_BEAM: BeamFormValues = {
+  beamNo: '',
+  machineNo: '',
+  qualityId: 'none',
+  length: 0,
+  gaitingDate: '',
+  finishedDate: '',
+};
+
+export default function BeamsPageClient() {
+  const searchParams = useSearchParams();
+  const { beams, records, machines, qualities, addBeam, updateBeam, deleteBeam, updateMachine } = useAppState();
+  const [machineFilter, setMachineFilter] = useState(searchParams.get('machineNo') ?? 'all');
+  const [editingBeam, setEditingBeam] = useState<Beam | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const form = useForm<BeamFormValues>({
+    resolver: zodResolver(beamSchema),
+    defaultValues: EMPTY_BEAM,
+  });
+
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+  const machineOptions = useMemo(() => sortMachines(machines), [machines]);
+  const qualityOptions = useMemo(() => sortQualities(qualities).filter(q => q.active), [qualities]);
+
+  const beamStatuses = useMemo(() => {
+    return sortBeams(beams.filter(b => machineFilter === 'all' || b.machineNo === machineFilter))
+      .sort((a, b) => compareMachineNo(a.machineNo, b.machineNo))
+      .map(beam => getBeamStatus(beam, beams, records));
+  }, [beams, records, machineFilter]);
+
+  const openDialog = (beam: Beam | null) => {
+    setEditingBeam(beam);
+    if (beam) {
+      form.reset({ ...beam, qualityId: beam.qualityId ?? 'none', finishedDate: beam.finishedDate ?? '' });
+    } else {
+      const machineNo = machineFilter === 'all' ? '' : machineFilter;
+      const machine = machines.find(m => m.machineNo === machineNo);
+      form.reset({ ...EMPTY_BEAM, machineNo, qualityId: machine?.qualityId ?? 'none', gaitingDate: format(new Date(), 'yyyy-MM-dd') });
+    }
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = (values: BeamFormValues) => {
+    const beam = {
+      ...values,
+      qualityId: values.qualityId === 'none' ? undefined : values.qualityId,
+      finishedDate: values.finishedDate || undefined,
+    };
+
+    if (editingBeam) {
+      updateBeam({ ...editingBeam, ...beam });
+      toast({ title: 'Beam Updated', description: `Beam ${values.beamNo} has been updated.` });
+    } else {
+      addBeam(beam);
+      // The machine now weaves whatever is on the new beam
+      const machine = machines.find(m => m.machineNo === values.machineNo);
+      if (machine && beam.qualityId && machine.qualityId !== beam.qualityId) {
+        updateMachine({ ...machine, qualityId: beam.qualityId });
+      }
+      toast({ title: 'Beam Gaited', description: `Beam ${values.beamNo} is on Machine ${values.machineNo}.` });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const finishBeam = (beam: Beam) => {
+    updateBeam({ ...beam, finishedDate: format(new Date(), 'yyyy-MM-dd') });
+    toast({ title: 'Beam Finished', description: `Beam ${beam.beamNo} has been cut off Machine ${beam.machineNo}.` });
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className='border-0 shadow-none'>
+        <CardHeader className='p-2 flex flex-row items-center justify-between gap-2'>
+          <div>
+            <CardTitle className="text-primary text-lg">Beams</CardTitle>
+            <CardDescription className='text-xs'>Warp used is the weft meters woven since the beam was gaited.</CardDescription>
+          </div>
+          <Button type="button" size="sm" onClick={() => openDialog(null)} className="bg-accent hover:bg-accent/90 shrink-0">
+            <PlusCircle className="mr-2 h-4 w-4" /> Gait Beam
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0 space-y-2">
+          <div className="px-2">
+            <Select value={machineFilter} onValueChange={setMachineFilter}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Machines</SelectItem>
+                {machineOptions.map(m => <SelectItem key={m.id} value={m.machineNo}>Machine {m.machineNo}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="overflow-x-auto">
+            <Table className="text-[10px] font-bold">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={cellPadding}>M/C</TableHead>
+                  <TableHead className={cellPadding}>Beam</TableHead>
+                  <TableHead className={cellPadding}>Quality</TableHead>
+                  <TableHead className={cellPadding}>Gaited</TableHead>
+                  <TableHead className={cellPadding}>Length</TableHead>
+                  <TableHead className={cellPadding}>Used</TableHead>
+                  <TableHead className={cellPadding}>Left</TableHead>
+                  <TableHead className={cellPadding}>Ends In</TableHead>
+                  <TableHead className={cellPadding}>Act</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {beamStatuses.map(status => {
+                  const { beam } = status;
+                  return (
+                    <TableRow key={beam.id} className={cn(!status.running && 'text-muted-foreground')}>
+                      <TableCell className={cn(cellPadding, 'text-purple-600')}>{beam.machineNo}</TableCell>
+                      <TableCell className={cellPadding}>{beam.beamNo}</TableCell>
+                      <TableCell className={cellPadding}>{beam.qualityId ? getQualityName(qualityMap, beam.qualityId) : ''}</TableCell>
+                      <TableCell className={cellPadding}>{format(parseISO(beam.gaitingDate), 'dd/MM/yy')}</TableCell>
+                      <TableCell className={cellPadding}>{beam.length}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-teal-600')}>{status.consumed.toFixed(0)} ({status.shifts})</TableCell>
+                      <TableCell className={cn(cellPadding, status.running && 'text-red-700')}>{status.running ? status.remaining.toFixed(0) : ''}</TableCell>
+                      <TableCell className={cellPadding}>
+                        {status.running
+                          ? (status.shiftsLeft !== null ? `${status.shiftsLeft} shifts` : '-')
+                          : (
+                            <Badge variant="outline" className="text-[9px] px-1">
+                              {beam.finishedDate ? `Finished ${format(parseISO(beam.finishedDate), 'dd/MM')}` : 'Replaced'}
+                            </Badge>
+                          )}
+                      </TableCell>
+                      <TableCell className={cn(cellPadding, 'flex gap-1')}>
+                        <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => openDialog(beam)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        {status.running && (
+                          <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => finishBeam(beam)} title="Mark finished">
+                            <CircleStop className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button type="button" variant="ghost" size="icon" className="h-6 w-6">
+                              <Trash2 className="h-3 w-3 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Beam {beam.beamNo}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This removes the beam from Machine {beam.machineNo}'s history. Records are not affected.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => deleteBeam(beam.id)} className="bg-destructive hover:bg-destructive/90">
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {beamStatuses.length === 0 && <p className="text-center text-xs text-muted-foreground py-4">No beams gaited.</p>}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBeam ? `Edit Beam ${editingBeam.beamNo}` : 'Gait Beam'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-2 gap-2">
+              <FormField control={form.control} name="beamNo" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Beam No.</FormLabel>
+                  <FormControl><Input {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="machineNo" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Machine</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-8"><SelectValue placeholder="M/C" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {machineOptions.filter(m => m.active || m.machineNo === field.value).map(m => (
+                        <SelectItem key={m.id} value={m.machineNo}>{m.machineNo}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="qualityId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Quality</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-8"><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No Quality</SelectItem>
+                      {qualityOptions.map(q => <SelectItem key={q.id} value={q.id}>{q.name}</SelectItem>)}
+                      {editingBeam?.qualityId && !qualityOptions.some(q => q.id === editingBeam.qualityId) && (
+                        <SelectItem value={editingBeam.qualityId}>{getQualityName(qualityMap, editingBeam.qualityId)}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="length" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Length (m)</FormLabel>
+                  <FormControl><Input type="number" step="0.1" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="gaitingDate" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Gaiting Date</FormLabel>
+                  <FormControl><Input type="date" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {editingBeam && (
+                <FormField control={form.control} name="finishedDate" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Finished On</FormLabel>
+                    <FormControl><Input type="date" {...field} className="h-8" /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              )}
+              <DialogFooter className="col-span-2">
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90">
+                  {editingBeam ? 'Update Beam' : 'Gait Beam'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
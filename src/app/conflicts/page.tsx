@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { RECORD_FIELD_LABELS } from '@/lib/conflicts';
+import { getQualityMap, getQualityName } from '@/lib/qualities';
+import { getOperatorMap, getOperatorName } from '@/lib/operators';
+import { getShiftName } from '@/lib/shifts';
+import type { LoomRecord } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, CheckCircle2 } from 'lucide-react';
+
+export default function ConflictsPage() {
+  const router = useRouter();
+  const { syncConflicts, resolveConflict, qualities, operators, settings } = useAppState();
+
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+  const operatorMap = useMemo(() => getOperatorMap(operators), [operators]);
+
+  const sortedConflicts = useMemo(() => {
+    return [...syncConflicts].sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  }, [syncConflicts]);
+
+  const formatField = (record: LoomRecord, key: keyof LoomRecord): string => {
+    switch (key) {
+      case 'date':
+        return format(parseISO(record.date), 'dd/MM/yy');
+      case 'shift':
+        return getShiftName(settings.shifts, record.shift);
+      case 'qualityId':
+        return getQualityName(qualityMap, record.qualityId);
+      case 'operatorId':
+        return getOperatorName(operatorMap, record.operatorId);
+      case 'updatedAt':
+        return record.updatedAt ? format(parseISO(record.updatedAt), 'dd/MM HH:mm:ss') : '-';
+      case 'deletedAt':
+        return record.deletedAt ? format(parseISO(record.deletedAt), 'dd/MM HH:mm:ss') : '-';
+      default:
+        return String(record[key] ?? '');
+    }
+  };
+
+  const handleResolve = (id: string, keep: 'local' | 'remote') => {
+    resolveConflict(id, keep);
+    toast({ title: 'Conflict Resolved', description: keep === 'local' ? 'The copy from this device was kept.' : 'The cloud copy was kept.' });
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center gap-2 p-2">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+              <ArrowLeft />
+          </Button>
+          <div>
+            <CardTitle className='text-primary text-xl'>Sync Conflicts</CardTitle>
+            <CardDescription className='text-xs'>Records edited here and on another device at the same time. The newer edit was applied; keep it or switch to the other copy.</CardDescription>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {sortedConflicts.map(conflict => (
+        <Card key={conflict.id} className="m-0 shadow-lg border-0">
+          <CardHeader className="p-2">
+            <CardTitle className="text-sm font-bold text-primary">
+              Machine {conflict.remote.machineNo} - {format(parseISO(conflict.remote.date), 'dd/MM/yy')} {getShiftName(settings.shifts, conflict.remote.shift)}
+            </CardTitle>
+            <CardDescription className="text-[10px]">Detected {format(parseISO(conflict.detectedAt), 'dd/MM/yy HH:mm')}</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0 space-y-2">
+            <Table className="text-[10px] font-bold">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Field</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>
+                    This Device {conflict.applied === 'local' && <Badge variant="secondary" className="text-[9px] px-1 ml-1">Applied</Badge>}
+                  </TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>
+                    Cloud {conflict.applied === 'remote' && <Badge variant="secondary" className="text-[9px] px-1 ml-1">Applied</Badge>}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {RECORD_FIELD_LABELS.map(({ key, label }) => {
+                  const localValue = formatField(conflict.local, key);
+                  const remoteValue = formatField(conflict.remote, key);
+                  return (
+                    <TableRow key={key} className={cn(localValue !== remoteValue && 'bg-yellow-100/50')}>
+                      <TableCell className={cn(cellPadding, 'text-muted-foreground')}>{label}</TableCell>
+                      <TableCell className={cellPadding}>{localValue}</TableCell>
+                      <TableCell className={cellPadding}>{remoteValue}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <div className="grid grid-cols-2 gap-2 p-2 pt-0">
+              <Button size="sm" variant={conflict.applied === 'local' ? 'default' : 'outline'} onClick={() => handleResolve(conflict.id, 'local')}>
+                Keep This Device
+              </Button>
+              <Button size="sm" variant={conflict.applied === 'remote' ? 'default' : 'outline'} onClick={() => handleResolve(conflict.id, 'remote')}>
+                Keep Cloud
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      {sortedConflicts.length === 0 && (
+        <div className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+          <CheckCircle2 className="h-8 w-8 text-green-600" />
+          <p className="text-sm">No conflicts. Everything is in sync.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Progress } from '@/components/ui/progress';
+import { Calendar as CalendarIcon, CheckCircle2 } from 'lucide-react';
+import { format, parseISO, eachDayOfInterval, subDays } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { useAppState } from '@/hooks/use-app-state';
+import { getCoverageForDates, buildMissingEntriesMessage } from '@/lib/coverage';
+import { getShiftName } from '@/lib/shifts';
+import WhatsAppIcon from '@/components/WhatsAppIcon';
+
+export default function CoveragePage() {
+  const { records, settings, machines } = useAppState();
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 2),
+    to: new Date(),
+  });
+
+  const coverage = useMemo(() => {
+    if (!dateRange?.from) return [];
+    const dates = eachDayOfInterval({ start: dateRange.from, end: dateRange.to || dateRange.from })
+      .map(date => format(date, 'yyyy-MM-dd'));
+    return getCoverageForDates(records, machines, dates, settings.shifts.map(s => s.code));
+  }, [records, dateRange, machines, settings.shifts]);
+
+  const totalMissing = coverage.reduce((sum, c) => sum + c.missing.length, 0);
+
+  const handleWhatsAppShare = () => {
+    if (!settings.whatsAppNumber) {
+      alert("Please set a WhatsApp number in settings.");
+      return;
+    }
+    const message = encodeURIComponent(buildMissingEntriesMessage(coverage, date => format(parseISO(date), 'dd/MM/yy'), code => getShiftName(settings.shifts, code)));
+    window.open(`https://wa.me/${settings.whatsAppNumber}?text=${message}`);
+  };
+
+  return (
+    <div className="space-y-2 p-0 m-0">
+      <div className="flex justify-between items-center gap-2 px-1">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="w-full justify-start text-left font-normal bg-card">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {dateRange?.from ? (dateRange.to ? `${format(dateRange.from, 'dd/MM/yy')} - ${format(dateRange.to, 'dd/MM/yy')}` : format(dateRange.from, 'dd/MM/yy')) : <span>Pick a date</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar initialFocus mode="range" defaultMonth={dateRange?.from} selected={dateRange} onSelect={setDateRange} numberOfMonths={2} />
+          </PopoverContent>
+        </Popover>
+        <Button onClick={handleWhatsAppShare} disabled={totalMissing === 0} className="bg-green-500 hover:bg-green-600 text-white shrink-0">
+          <WhatsAppIcon className="mr-2 h-4 w-4" /> Remind
+        </Button>
+      </div>
+
+      <div className="space-y-2 px-1">
+        {coverage.map(c => (
+          <Card key={`${c.date}-${c.shift}`} className="shadow-md border-0">
+            <CardHeader className="p-2">
+              <div className="flex justify-between items-center">
+                <CardTitle className="text-primary text-xs font-bold">
+                  {format(parseISO(c.date), 'EEE, dd/MM/yy')} - {getShiftName(settings.shifts, c.shift)} Shift
+                </CardTitle>
+                <span className="text-[11px] font-bold text-muted-foreground">{c.recorded}/{c.expected}</span>
+              </div>
+              <Progress value={c.expected > 0 ? (c.recorded / c.expected) * 100 : 0} className="h-1.5" />
+            </CardHeader>
+            <CardContent className="p-2 pt-0">
+              {c.missing.length === 0 ? (
+                <p className="flex items-center text-[11px] font-bold text-green-600">
+                  <CheckCircle2 className="mr-1 h-3 w-3" /> All machines recorded
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {c.missing.map(machineNo => (
+                    <Button key={machineNo} asChild variant="outline" size="sm" className="h-6 px-2 text-[11px] font-bold text-red-700 border-red-300">
+                      <Link href={`/efficiency/add?${new URLSearchParams({ machineNo, date: c.date, shift: c.shift })}`}>
+                        M {machineNo}
+                      </Link>
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+        {coverage.length === 0 && <p className="text-center text-muted-foreground py-10">Pick a date range to check coverage.</p>}
+      </div>
+    </div>
+  );
+}
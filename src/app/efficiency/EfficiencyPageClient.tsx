@@ -11,10 +11,15 @@ import { Calendar } from '@/components/ui/calendar';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter as TFoot } from '@/components/ui/table';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Calendar as CalendarIcon, PlusCircle, MoreVertical, Edit, Trash2 } from 'lucide-react';
+import { Calendar as CalendarIcon, PlusCircle, MoreVertical, Edit, Trash2, TableProperties, Timer, ArchiveRestore } from 'lucide-react';
 import { format, parse, isValid } from 'date-fns';
 import { useAppState } from '@/hooks/use-app-state';
-import { processRecord } from '@/lib/calculations';
+import { useIndexedRecords } from '@/hooks/use-indexed-records';
+import { getQualityMap, processRecordsWithQualities } from '@/lib/qualities';
+import { getMachineHref } from '@/lib/machines';
+import { getShiftCodesInUse, getShiftName } from '@/lib/shifts';
+import { formatStopBreakdown } from '@/lib/stops';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
 import type { CalculatedLoomRecord } from '@/lib/types';
 import WhatsAppIcon from '@/components/WhatsAppIcon';
 import { cn } from '@/lib/utils';
@@ -23,7 +28,7 @@ type SortKey = keyof CalculatedLoomRecord | 'lossPrd';
 type SortDirection = 'asc' | 'desc';
 
 export default function EfficiencyPageClient() {
-  const { records, deleteRecord, settings } = useAppState();
+  const { deleteRecord, settings, qualities } = useAppState();
   const searchParams = useSearchParams();
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
@@ -47,7 +52,7 @@ export default function EfficiencyPageClient() {
     let message = settings.messageTemplate || 'Record Details:\nDate: {{date}}\nTime: {{time}}\nShift: {{shift}}\nMachine: {{machineNo}}\nEfficiency: {{efficiency}}%';
     message = message.replace('{{date}}', format(new Date(record.date), 'dd/MM/yyyy'))
                      .replace('{{time}}', record.time)
-                     .replace('{{shift}}', record.shift)
+                     .replace('{{shift}}', getShiftName(settings.shifts, record.shift))
                      .replace('{{machineNo}}', record.machineNo)
                      .replace('{{efficiency}}', record.efficiency.toFixed(2));
     
@@ -55,11 +60,10 @@ export default function EfficiencyPageClient() {
     window.open(`https://wa.me/${settings.whatsAppNumber}?text=${encodedMessage}`);
   };
 
+  const dayRecords = useIndexedRecords('date', format(selectedDate, 'yyyy-MM-dd'));
+
   const filteredAndSortedRecords = useMemo(() => {
-    const dateString = format(selectedDate, 'yyyy-MM-dd');
-    let filtered = records
-      .filter(r => r.date === dateString)
-      .map(processRecord);
+    let filtered = processRecordsWithQualities(dayRecords, getQualityMap(qualities));
 
     if (sortConfig !== null) {
         filtered.sort((a, b) => {
@@ -77,10 +81,9 @@ export default function EfficiencyPageClient() {
     }
 
     return filtered;
-  }, [records, selectedDate, sortConfig]);
+  }, [dayRecords, sortConfig, qualities]);
 
-  const dayShiftRecords = filteredAndSortedRecords.filter(r => r.shift === 'Day');
-  const nightShiftRecords = filteredAndSortedRecords.filter(r => r.shift === 'Night');
+  const shiftCodes = useMemo(() => getShiftCodesInUse(settings.shifts, filteredAndSortedRecords), [settings.shifts, filteredAndSortedRecords]);
 
   const requestSort = (key: SortKey) => {
     let direction: SortDirection = 'asc';
@@ -134,8 +137,8 @@ export default function EfficiencyPageClient() {
               {data.map(record => (
                 <TableRow key={record.id}>
                   <TableCell className={cn(cellPadding, 'text-gray-700')}>{record.time.substring(0,5)}</TableCell>
-                  <TableCell className={cn(cellPadding, 'text-purple-600')}>{record.machineNo}</TableCell>
-                  <TableCell className={cn(cellPadding, 'text-orange-600')}>{record.stops}</TableCell>
+                  <TableCell className={cn(cellPadding, 'text-purple-600')}><Link href={getMachineHref(record.machineNo)} className="hover:underline">{record.machineNo}</Link></TableCell>
+                  <TableCell className={cn(cellPadding, 'text-orange-600')} title={formatStopBreakdown(record.stopBreakdown)}>{record.stops}</TableCell>
                   <TableCell className={cn(cellPadding, 'text-teal-600')}>{record.weftMeter.toFixed(1)}</TableCell>
                   <TableCell className={cn(cellPadding, 'text-gray-700')}>{record.total}</TableCell>
                   <TableCell className={cn(cellPadding, 'text-gray-700')}>{record.run}</TableCell>
@@ -154,8 +157,15 @@ export default function EfficiencyPageClient() {
                         <DropdownMenuItem onSelect={() => handleWhatsAppShare(record)}>
                           <WhatsAppIcon className="mr-2 h-4 w-4" /> Share
                         </DropdownMenuItem>
-                        <DropdownMenuItem>
-                          <Edit className="mr-2 h-4 w-4" /> Edit
+                        <DropdownMenuItem asChild>
+                          <Link href={`/efficiency/${record.id}/edit`}>
+                            <Edit className="mr-2 h-4 w-4" /> Edit
+                          </Link>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link href={`/efficiency/downtime?${new URLSearchParams({ date: record.date, shift: record.shift, machineNo: record.machineNo })}`}>
+                            <Timer className="mr-2 h-4 w-4" /> Log Downtime
+                          </Link>
                         </DropdownMenuItem>
                         <AlertDialog>
                             <AlertDialogTrigger asChild>
@@ -167,7 +177,7 @@ export default function EfficiencyPageClient() {
                                 <AlertDialogHeader>
                                 <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                    This action cannot be undone. This will permanently delete the record.
+                                    The record will be moved to the trash. It can be restored from there within {TRASH_RETENTION_DAYS} days.
                                 </AlertDialogDescription>
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
@@ -220,6 +230,24 @@ export default function EfficiencyPageClient() {
             />
           </PopoverContent>
         </Popover>
+        <Button asChild variant="outline" size="icon" className="shrink-0 bg-card">
+          <Link href="/efficiency/bulk">
+            <TableProperties className="h-4 w-4" />
+            <span className="sr-only">Shift Entry</span>
+          </Link>
+        </Button>
+        <Button asChild variant="outline" size="icon" className="shrink-0 bg-card">
+          <Link href={`/efficiency/downtime?date=${format(selectedDate, 'yyyy-MM-dd')}`}>
+            <Timer className="h-4 w-4" />
+            <span className="sr-only">Downtime Log</span>
+          </Link>
+        </Button>
+        <Button asChild variant="outline" size="icon" className="shrink-0 bg-card">
+          <Link href="/efficiency/trash">
+            <ArchiveRestore className="h-4 w-4" />
+            <span className="sr-only">Trash</span>
+          </Link>
+        </Button>
         <Button asChild className="bg-accent hover:bg-accent/90 shrink-0">
           <Link href="/efficiency/add">
             <PlusCircle className="h-4 w-4 mr-2" />
@@ -229,8 +257,11 @@ export default function EfficiencyPageClient() {
       </div>
 
       <div className="space-y-4">
-        {renderRecordsTable('Day Shift', dayShiftRecords)}
-        {renderRecordsTable('Night Shift', nightShiftRecords)}
+        {shiftCodes.map(code => (
+          <React.Fragment key={code}>
+            {renderRecordsTable(`${getShiftName(settings.shifts, code)} Shift`, filteredAndSortedRecords.filter(r => r.shift === code))}
+          </React.Fragment>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAppState } from '@/hooks/use-app-state';
+import { useLoomScanner } from '@/hooks/use-loom-scanner';
+import { useCounterDerivation } from '@/hooks/use-counter-derivation';
+import { getActiveMachineNumbers } from '@/lib/machines';
+import { getShiftName } from '@/lib/shifts';
+import { sortQualities } from '@/lib/qualities';
+import { sortOperators } from '@/lib/operators';
+import { COUNTER_FIELD_LABELS, rederiveNextRecord } from '@/lib/counters';
+import { formSchema, formValuesToRecord, scanResultToFormValues, stopBreakdownToFormValues, findDuplicateRecord, type RecordFormValues } from '@/lib/record-form';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form } from '@/components/ui/form';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CameraCapture } from '@/components/CameraCapture';
+import { RecordFormFields } from '@/components/RecordFormFields';
+import { CounterReadingFields } from '@/components/CounterReadingFields';
+import { toast } from '@/hooks/use-toast';
+import { Upload, Camera, Save, Loader2, ArrowLeft } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { LoomRecord } from '@/lib/types';
+
+const toFormValues = (record: LoomRecord): RecordFormValues => ({
+  date: parseISO(record.date),
+  time: record.time.substring(0, 5),
+  shift: record.shift,
+  machineNo: record.machineNo,
+  stops: record.stops,
+  stopBreakdown: stopBreakdownToFormValues(record.stopBreakdown),
+  weftMeter: record.weftMeter,
+  total: record.total,
+  run: record.run,
+  qualityId: record.qualityId,
+  operatorId: record.operatorId,
+  counterReading: record.counterReading,
+});
+
+export default function EditEfficiencyRecordPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const { records, updateRecord, machines, qualities, operators, settings, isInitialized } = useAppState();
+
+  const record = useMemo(() => records.find(r => r.id === params.id), [records, params.id]);
+
+  const form = useForm<RecordFormValues>({
+    resolver: zodResolver(formSchema),
+  });
+
+  // Load the record once it is available; later realtime changes must not clobber unsaved edits.
+  const isLoaded = useRef(false);
+  useEffect(() => {
+    if (record && !isLoaded.current) {
+      form.reset(toFormValues(record));
+      isLoaded.current = true;
+    }
+  }, [record, form]);
+
+  // Records entered as counter readings stay that way whatever the current reading mode
+  const { previousRecord, delta } = useCounterDerivation(form, record?.id);
+
+  const { isScanning, showCamera, setShowCamera, fileInputRef, handleFileChange, handleCapture } = useLoomScanner(result => {
+    // Keep the record's date, overwrite everything the scan could read
+    const currentValues = form.getValues();
+    form.reset({ ...currentValues, ...scanResultToFormValues(result, settings.shifts, currentValues.counterReading ? 'cumulative' : 'shift') });
+
+    toast({ title: 'Scan Complete', description: 'Fields have been overwritten with the scanned values.' });
+  });
+
+  const onSubmit = (values: RecordFormValues) => {
+    if (!record) return;
+    const dateString = format(values.date, 'yyyy-MM-dd');
+
+    const isDuplicate = !!findDuplicateRecord(records, { date: dateString, shift: values.shift, machineNo: values.machineNo }, record.id);
+
+    if (isDuplicate) {
+      toast({
+        variant: 'destructive',
+        title: 'Duplicate Record',
+        description: `A record for Machine ${values.machineNo} on ${format(values.date, 'dd/MM/yy')} (${getShiftName(settings.shifts, values.shift)} shift) already exists.`,
+      });
+      return;
+    }
+
+    if (delta && delta.negativeFields.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Counter Went Down',
+        description: `${delta.negativeFields.map(f => COUNTER_FIELD_LABELS[f]).join(', ')} is lower than the previous reading on Machine ${values.machineNo}.`,
+      });
+      return;
+    }
+
+    const updatedRecord = { ...record, ...formValuesToRecord(values) };
+    updateRecord(updatedRecord);
+    // The following shift's values are measured from this reading
+    const nextRecord = rederiveNextRecord(records, settings.shifts, updatedRecord);
+    if (nextRecord) updateRecord(nextRecord);
+    toast({ title: 'Record Updated!', description: `Record for Machine ${values.machineNo} has been updated.` });
+    router.push(`/efficiency?date=${dateString}`);
+  };
+
+  // A retired machine stays selectable for records that already belong to it
+  const machineOptions = useMemo(() => {
+    const active = getActiveMachineNumbers(machines);
+    return record && !active.includes(record.machineNo) ? [record.machineNo, ...active] : active;
+  }, [machines, record]);
+
+  // Likewise keep a shift code that is no longer defined selectable
+  const shiftOptions = useMemo(() => {
+    const isDefined = !record || settings.shifts.some(s => s.code === record.shift);
+    return isDefined ? settings.shifts : [...settings.shifts, { code: record.shift, name: record.shift, startTime: '', endTime: '', scannerLetter: '' }];
+  }, [settings.shifts, record]);
+
+  // An inactive quality stays selectable for records that already use it
+  const qualityOptions = useMemo(() => {
+    return sortQualities(qualities).filter(q => q.active || q.id === record?.qualityId);
+  }, [qualities, record]);
+
+  const operatorOptions = useMemo(() => {
+    return sortOperators(operators).filter(o => o.active || o.id === record?.operatorId);
+  }, [operators, record]);
+
+  if (showCamera) {
+    return <CameraCapture isScanning={isScanning} onCapture={handleCapture} onCancel={() => setShowCamera(false)} />;
+  }
+
+  if (!isInitialized) {
+    return (
+      <div className="p-1">
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!record) {
+    return (
+      <div className="p-1">
+        <Card className="m-0 shadow-lg border-0">
+          <CardHeader className="p-2">
+            <CardTitle className='text-primary text-xl'>Record Not Found</CardTitle>
+          </CardHeader>
+          <CardContent className="p-2 space-y-2">
+            <p className="text-sm text-muted-foreground">This record does not exist or has been deleted.</p>
+            <Button variant="outline" onClick={() => router.push('/efficiency')}>
+              <ArrowLeft className="mr-2 h-4 w-4" /> Back to Efficiency
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center justify-between p-2">
+          <div className='flex items-center gap-2'>
+            <Button variant="ghost" size="icon" onClick={() => router.back()}>
+                <ArrowLeft />
+            </Button>
+            <CardTitle className='text-primary text-xl'>Edit Record</CardTitle>
+          </div>
+          <div className="flex gap-2">
+            <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+            <Button type="button" onClick={() => fileInputRef.current?.click()} disabled={isScanning}>
+              {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload
+            </Button>
+            <Button type="button" onClick={() => setShowCamera(true)} disabled={isScanning}>
+              <Camera className="mr-2 h-4 w-4" />
+              Scan
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-2">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {record.counterReading && <CounterReadingFields form={form} shifts={settings.shifts} previousRecord={previousRecord} delta={delta} />}
+              <RecordFormFields form={form} machineOptions={machineOptions} shiftOptions={shiftOptions} qualityOptions={qualityOptions} operatorOptions={operatorOptions} derivedFromCounters={!!record.counterReading} />
+              <Button type="submit" className="w-full bg-primary hover:bg-primary/90 mt-6">
+                <Save className="mr-2 h-4 w-4" /> Update Record
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useEffect, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAppState } from '@/hooks/use-app-state';
+import { useLoomScanner } from '@/hooks/use-loom-scanner';
+import { useCounterDerivation } from '@/hooks/use-counter-derivation';
+import { processRecord } from '@/lib/calculations';
+import { getActiveMachineNumbers } from '@/lib/machines';
+import { getShiftAt, getShiftName } from '@/lib/shifts';
+import { sortQualities } from '@/lib/qualities';
+import { getAssignedOperatorId, sortOperators } from '@/lib/operators';
+import { COUNTER_FIELD_LABELS, EMPTY_COUNTER_READING, rederiveNextRecord } from '@/lib/counters';
+import { formSchema, formValuesToRecord, scanResultToFormValues, findDuplicateRecord, EMPTY_STOP_BREAKDOWN, type RecordFormValues } from '@/lib/record-form';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form } from '@/components/ui/form';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CameraCapture } from '@/components/CameraCapture';
+import { RecordFormFields } from '@/components/RecordFormFields';
+import { CounterReadingFields } from '@/components/CounterReadingFields';
+import { toast } from '@/hooks/use-toast';
+import { Upload, Camera, Save, Loader2, ArrowLeft } from 'lucide-react';
+import { format, parse, isValid } from 'date-fns';
+import type { ShiftDefinition } from '@/lib/types';
+
+// Reads machine, date and shift handed over from other screens (e.g. the coverage view).
+const getPrefilledValues = (searchParams: URLSearchParams, shifts: ShiftDefinition[]): Partial<RecordFormValues> => {
+  const values: Partial<RecordFormValues> = {};
+  const dateParam = searchParams.get('date');
+  if (dateParam) {
+    const parsedDate = parse(dateParam, 'yyyy-MM-dd', new Date());
+    if (isValid(parsedDate)) values.date = parsedDate;
+  }
+  const shiftParam = searchParams.get('shift');
+  if (shiftParam && shifts.some(s => s.code === shiftParam)) values.shift = shiftParam;
+  const machineParam = searchParams.get('machineNo');
+  if (machineParam) values.machineNo = machineParam;
+  return values;
+};
+
+export default function AddRecordPageClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { records, addRecord, updateRecord, machines, qualities, operators, operatorAssignments, settings } = useAppState();
+  const isCumulative = settings.readingMode === 'cumulative';
+
+  const form = useForm<RecordFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: new Date(),
+      time: format(new Date(), 'HH:mm'),
+      shift: getShiftAt(settings.shifts, format(new Date(), 'HH:mm'))?.code ?? settings.shifts[0]?.code,
+      stops: 0,
+      stopBreakdown: EMPTY_STOP_BREAKDOWN,
+      weftMeter: 0,
+      total: '00:00:00',
+      run: '00:00:00',
+      ...getPrefilledValues(searchParams, settings.shifts),
+    },
+  });
+
+  // Settings load after the first render; fall back to the current shift once they are known
+  useEffect(() => {
+    if (!settings.shifts.some(s => s.code === form.getValues('shift'))) {
+      form.setValue('shift', getShiftAt(settings.shifts, format(new Date(), 'HH:mm'))?.code ?? settings.shifts[0]?.code);
+    }
+  }, [settings.shifts, form]);
+
+  // Likewise the reading mode decides whether a counter reading is entered at all
+  useEffect(() => {
+    if (isCumulative && !form.getValues('counterReading')) {
+      form.setValue('counterReading', EMPTY_COUNTER_READING);
+    } else if (!isCumulative) {
+      form.setValue('counterReading', undefined);
+    }
+  }, [isCumulative, form]);
+
+  const { previousRecord, delta } = useCounterDerivation(form);
+
+  const watchedDate = useWatch({ control: form.control, name: 'date' });
+  const watchedShift = useWatch({ control: form.control, name: 'shift' });
+  const watchedMachineNo = useWatch({ control: form.control, name: 'machineNo' });
+
+  // Default the quality to whatever is currently on the selected loom
+  useEffect(() => {
+    if (!watchedMachineNo) return;
+    const machine = machines.find(m => m.machineNo === watchedMachineNo);
+    form.setValue('qualityId', machine?.qualityId);
+  }, [watchedMachineNo, machines, form]);
+
+  // Likewise the operator comes from the shift roster
+  useEffect(() => {
+    if (!watchedMachineNo || !watchedShift) return;
+    form.setValue('operatorId', getAssignedOperatorId(operatorAssignments, watchedShift, watchedMachineNo));
+  }, [watchedMachineNo, watchedShift, operatorAssignments, form]);
+
+  const recentRecords = useMemo(() => {
+    if (!watchedDate || !watchedShift) return [];
+    const dateString = format(watchedDate, 'yyyy-MM-dd');
+    return records
+      .filter(r => r.date === dateString && r.shift === watchedShift)
+      .map(r => processRecord(r))
+      .sort((a, b) => b.time.localeCompare(a.time))
+      .slice(0, 5);
+  }, [records, watchedDate, watchedShift]);
+
+  const { isScanning, showCamera, setShowCamera, fileInputRef, handleFileChange, handleCapture } = useLoomScanner(result => {
+    // Keep the manually selected date
+    const currentValues = form.getValues();
+    form.reset({ ...currentValues, ...scanResultToFormValues(result, settings.shifts, settings.readingMode) });
+
+    toast({ title: 'Scan Complete', description: 'Form has been pre-filled.' });
+  });
+
+  const onSubmit = (values: RecordFormValues) => {
+    const dateString = format(values.date, 'yyyy-MM-dd');
+    
+    // Check for duplicate record
+    const isDuplicate = !!findDuplicateRecord(records, { date: dateString, shift: values.shift, machineNo: values.machineNo });
+
+    if (isDuplicate) {
+      toast({
+        variant: 'destructive',
+        title: 'Duplicate Record',
+        description: `A record for Machine ${values.machineNo} on ${format(values.date, 'dd/MM/yy')} (${getShiftName(settings.shifts, values.shift)} shift) already exists.`,
+      });
+      return;
+    }
+
+    if (delta && delta.negativeFields.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Counter Went Down',
+        description: `${delta.negativeFields.map(f => COUNTER_FIELD_LABELS[f]).join(', ')} is lower than the previous reading on Machine ${values.machineNo}.`,
+      });
+      return;
+    }
+
+    const newRecord = formValuesToRecord(values);
+    addRecord(newRecord);
+    // Back-filled readings change what the following shift wove
+    const nextRecord = rederiveNextRecord(records, settings.shifts, newRecord);
+    if (nextRecord) updateRecord(nextRecord);
+    toast({ title: 'Record Saved!', description: `Record for Machine ${values.machineNo} has been added.` });
+    
+    const keptValues = { date: values.date, machineNo: '', shift: values.shift };
+    form.reset({
+        ...form.formState.defaultValues,
+        ...keptValues,
+        time: format(new Date(), 'HH:mm'),
+        stops: 0,
+        stopBreakdown: EMPTY_STOP_BREAKDOWN,
+        weftMeter: 0,
+        total: '00:00:00',
+        run: '00:00:00',
+        counterReading: isCumulative ? EMPTY_COUNTER_READING : undefined,
+    });
+    // Set focus back to machine number for quick entry
+    form.setFocus('machineNo');
+  };
+
+  const machineOptions = getActiveMachineNumbers(machines);
+  const qualityOptions = useMemo(() => sortQualities(qualities).filter(q => q.active), [qualities]);
+  const operatorOptions = useMemo(() => sortOperators(operators).filter(o => o.active), [operators]);
+  
+  if (showCamera) {
+    return <CameraCapture isScanning={isScanning} onCapture={handleCapture} onCancel={() => setShowCamera(false)} />;
+  }
+
+
+  return (
+    <div className="space-y-4 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center justify-between p-2">
+          <div className='flex items-center gap-2'>
+            <Button variant="ghost" size="icon" onClick={() => router.back()}>
+                <ArrowLeft />
+            </Button>
+            <CardTitle className='text-primary text-xl'>Add Record</CardTitle>
+          </div>
+          <div className="flex gap-2">
+            <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+            <Button type="button" onClick={() => fileInputRef.current?.click()} disabled={isScanning}>
+              {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload
+            </Button>
+            <Button type="button" onClick={() => setShowCamera(true)} disabled={isScanning}>
+              <Camera className="mr-2 h-4 w-4" />
+              Scan
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-2">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {isCumulative && <CounterReadingFields form={form} shifts={settings.shifts} previousRecord={previousRecord} delta={delta} />}
+              <RecordFormFields form={form} machineOptions={machineOptions} shiftOptions={settings.shifts} qualityOptions={qualityOptions} operatorOptions={operatorOptions} derivedFromCounters={isCumulative} />
+              <Button type="submit" className="w-full bg-primary hover:bg-primary/90 mt-6">
+                <Save className="mr-2 h-4 w-4" /> Save Record
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+       {recentRecords.length > 0 && (
+        <Card className="mt-4 shadow-lg border-0">
+          <CardHeader className="p-2">
+            <CardTitle className="text-primary text-lg">Recent Entries for {format(watchedDate, 'dd/MM/yy')} - {getShiftName(settings.shifts, watchedShift)} Shift</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+             <div className="overflow-x-auto">
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>M/C</TableHead>
+                    <TableHead>Stops</TableHead>
+                    <TableHead>Weft(m)</TableHead>
+                    <TableHead>Eff(%)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentRecords.map(record => (
+                    <TableRow key={record.id} className="font-bold">
+                      <TableCell>{record.time}</TableCell>
+                      <TableCell>{record.machineNo}</TableCell>
+                      <TableCell>{record.stops}</TableCell>
+                      <TableCell>{record.weftMeter.toFixed(1)}</TableCell>
+                      <TableCell>{record.efficiency.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
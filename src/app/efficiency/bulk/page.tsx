@@ -0,0 +1,275 @@
+'use client';
+
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAppState } from '@/hooks/use-app-state';
+import { processRecord } from '@/lib/calculations';
+import { getExpectedMachineNumbers } from '@/lib/machines';
+import { getShiftAt } from '@/lib/shifts';
+import { getAssignedOperatorId } from '@/lib/operators';
+import { bulkRowSchema, findDuplicateRecord, type BulkRowValues } from '@/lib/record-form';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Calendar as CalendarIcon, Save, ArrowLeft, FileSpreadsheet } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { LoomRecord } from '@/lib/types';
+
+type GridColumn = keyof BulkRowValues;
+type GridRow = Record<GridColumn, string>;
+
+const GRID_COLUMNS: { key: GridColumn; label: string; placeholder: string; inputMode: 'numeric' | 'decimal' | 'text' }[] = [
+  { key: 'stops', label: 'Stops', placeholder: '0', inputMode: 'numeric' },
+  { key: 'weftMeter', label: 'Weft(m)', placeholder: '0.0', inputMode: 'decimal' },
+  { key: 'total', label: 'Total', placeholder: 'HH:MM:SS', inputMode: 'text' },
+  { key: 'run', label: 'Run', placeholder: 'HH:MM:SS', inputMode: 'text' },
+];
+
+const EMPTY_ROW: GridRow = { stops: '', weftMeter: '', total: '', run: '' };
+
+const isRowFilled = (row: GridRow) => GRID_COLUMNS.some(({ key }) => row[key].trim() !== '');
+
+export default function BulkEntryPage() {
+  const router = useRouter();
+  const { records, addRecords, machines, operatorAssignments, settings } = useAppState();
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [shift, setShift] = useState(() => getShiftAt(settings.shifts, format(new Date(), 'HH:mm'))?.code ?? settings.shifts[0]?.code ?? '');
+  const [time, setTime] = useState(format(new Date(), 'HH:mm'));
+  const [rows, setRows] = useState<{ [machineNo: string]: GridRow }>({});
+  const cellRefs = useRef<{ [cellId: string]: HTMLInputElement | null }>({});
+
+  // Settings load after the first render; fall back to the current shift once they are known
+  useEffect(() => {
+    if (!settings.shifts.some(s => s.code === shift)) {
+      setShift(getShiftAt(settings.shifts, format(new Date(), 'HH:mm'))?.code ?? settings.shifts[0]?.code ?? '');
+    }
+  }, [settings.shifts, shift]);
+
+  const dateString = format(selectedDate, 'yyyy-MM-dd');
+
+  const machineNumbers = useMemo(() => getExpectedMachineNumbers(machines, dateString), [machines, dateString]);
+
+  const gridRows = useMemo(() => {
+    return machineNumbers.map(machineNo => {
+      const row = rows[machineNo] || EMPTY_ROW;
+      const existing = findDuplicateRecord(records, { date: dateString, shift, machineNo });
+      const filled = isRowFilled(row);
+      const parsed = filled ? bulkRowSchema.safeParse(row) : null;
+      const errors: Partial<Record<GridColumn, string>> = {};
+      if (parsed && !parsed.success) {
+        parsed.error.issues.forEach(issue => {
+          const key = issue.path[0] as GridColumn;
+          if (!errors[key]) errors[key] = issue.message;
+        });
+      }
+      const preview = parsed && parsed.success
+        ? processRecord({ id: machineNo, date: dateString, time, shift, machineNo, ...parsed.data })
+        : null;
+      return { machineNo, row, existing, filled, errors, values: parsed?.success ? parsed.data : null, preview };
+    });
+  }, [machineNumbers, rows, records, dateString, shift, time]);
+
+  const readyRows = gridRows.filter(r => r.filled && r.values && !r.existing);
+  const invalidRows = gridRows.filter(r => r.filled && !r.values && !r.existing);
+
+  const updateCell = (machineNo: string, key: GridColumn, value: string) => {
+    setRows(prev => ({ ...prev, [machineNo]: { ...(prev[machineNo] || EMPTY_ROW), [key]: value } }));
+  };
+
+  const focusCell = (rowIndex: number, colIndex: number) => {
+    if (rowIndex < 0 || rowIndex >= machineNumbers.length) return;
+    if (colIndex < 0 || colIndex >= GRID_COLUMNS.length) return;
+    const cell = cellRefs.current[`${rowIndex}-${colIndex}`];
+    if (cell) {
+      cell.focus();
+      cell.select();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, colIndex: number) => {
+    const input = event.currentTarget;
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const atEnd = input.selectionStart === input.value.length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'Enter':
+        event.preventDefault();
+        focusCell(rowIndex + 1, colIndex);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        focusCell(rowIndex - 1, colIndex);
+        break;
+      case 'ArrowLeft':
+        if (atStart) {
+          event.preventDefault();
+          focusCell(rowIndex, colIndex - 1);
+        }
+        break;
+      case 'ArrowRight':
+        if (atEnd) {
+          event.preventDefault();
+          focusCell(rowIndex, colIndex + 1);
+        }
+        break;
+    }
+  };
+
+  const handleSaveAll = () => {
+    if (!/^([01]\d|2[0-3]):([0-5]\d)$/.test(time)) {
+      toast({ variant: 'destructive', title: 'Invalid Time', description: 'Please enter the reading time as HH:MM.' });
+      return;
+    }
+    if (invalidRows.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Fix Errors First',
+        description: `Machines ${invalidRows.map(r => r.machineNo).join(', ')} have invalid values.`,
+      });
+      return;
+    }
+    if (readyRows.length === 0) {
+      toast({ title: 'Nothing to Save', description: 'Fill in at least one machine row.' });
+      return;
+    }
+
+    const skipped = gridRows.filter(r => r.filled && r.existing).map(r => r.machineNo);
+    const newRecords: Omit<LoomRecord, 'id'>[] = readyRows.map(({ machineNo, values }) => ({
+      date: dateString,
+      time,
+      shift,
+      machineNo,
+      qualityId: machines.find(m => m.machineNo === machineNo)?.qualityId,
+      operatorId: getAssignedOperatorId(operatorAssignments, shift, machineNo),
+      ...values!,
+    }));
+    addRecords(newRecords);
+
+    toast({
+      title: 'Records Saved!',
+      description: `${readyRows.length} records added.${skipped.length > 0 ? ` Skipped existing: ${skipped.join(', ')}.` : ''}`,
+    });
+    setRows({});
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center justify-between p-2">
+          <div className='flex items-center gap-2'>
+            <Button variant="ghost" size="icon" onClick={() => router.back()}>
+                <ArrowLeft />
+            </Button>
+            <CardTitle className='text-primary text-xl'>Shift Entry</CardTitle>
+          </div>
+          <div className='flex items-center gap-2'>
+            <Button asChild variant="outline" size="icon" className="shrink-0 bg-card">
+              <Link href="/efficiency/import">
+                <FileSpreadsheet className="h-4 w-4" />
+                <span className="sr-only">Import from file</span>
+              </Link>
+            </Button>
+            <Button onClick={handleSaveAll} className="bg-primary hover:bg-primary/90">
+              <Save className="mr-2 h-4 w-4" /> Save All ({readyRows.length})
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="grid grid-cols-3 gap-2 p-2">
+          <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="pl-3 text-left font-normal h-9 w-full">
+                {format(selectedDate, 'dd/MM/yy')}
+                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={selectedDate}
+                onSelect={(date) => {
+                    if (date) {
+                        setSelectedDate(date);
+                        setIsDatePickerOpen(false);
+                    }
+                }}
+              />
+            </PopoverContent>
+          </Popover>
+          <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} className="h-9" />
+          <Select value={shift} onValueChange={setShift}>
+            <SelectTrigger className="h-9"><SelectValue placeholder="Shift" /></SelectTrigger>
+            <SelectContent>
+              {settings.shifts.map(s => <SelectItem key={s.code} value={s.code}>{s.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {settings.readingMode === 'cumulative' && (
+            <p className="col-span-3 text-[11px] font-bold text-orange-600">
+              Values here are saved as shift values. Enter counter readings one machine at a time from Add Record.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="m-0 shadow-lg border-0">
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table className="text-[10px] font-bold">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={cn(cellPadding, "text-[10px] font-bold text-purple-600")}>M/C</TableHead>
+                  {GRID_COLUMNS.map(col => (
+                    <TableHead key={col.key} className={cn(cellPadding, "text-[10px] font-bold")}>{col.label}</TableHead>
+                  ))}
+                  <TableHead className={cn(cellPadding, "text-[10px] font-bold text-green-600")}>Eff(%)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {gridRows.map(({ machineNo, row, existing, errors, preview }, rowIndex) => (
+                  <TableRow key={machineNo} className={cn(existing && 'bg-muted/50')}>
+                    <TableCell className={cn(cellPadding, 'text-purple-600')}>{machineNo}</TableCell>
+                    {GRID_COLUMNS.map((col, colIndex) => (
+                      <TableCell key={col.key} className={cellPadding}>
+                        <Input
+                          ref={el => { cellRefs.current[`${rowIndex}-${colIndex}`] = el; }}
+                          value={existing ? String(existing[col.key]) : row[col.key]}
+                          onChange={(e) => updateCell(machineNo, col.key, e.target.value)}
+                          onKeyDown={(e) => handleKeyDown(e, rowIndex, colIndex)}
+                          onFocus={(e) => e.target.select()}
+                          placeholder={col.placeholder}
+                          inputMode={col.inputMode}
+                          readOnly={!!existing}
+                          title={errors[col.key]}
+                          className={cn('h-7 text-[11px] px-1 min-w-[60px]', errors[col.key] && 'border-destructive focus-visible:ring-destructive')}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell className={cn(cellPadding, 'text-green-600')}>
+                      {existing ? <span className="text-muted-foreground">Saved</span> : preview ? preview.efficiency.toFixed(2) : ''}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {invalidRows.length > 0 && (
+            <p className="text-[11px] text-destructive p-2">
+              {invalidRows.map(r => `M/C ${r.machineNo}: ${Object.values(r.errors).join(', ')}`).join(' | ')}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAppState } from '@/hooks/use-app-state';
+import { secondsToTime } from '@/lib/calculations';
+import { compareMachineNo, getExpectedMachineNumbers } from '@/lib/machines';
+import { getShiftAt } from '@/lib/shifts';
+import { DOWNTIME_REASONS, getDowntimeReasonLabel, getDowntimeSeconds, getEventsForShift, reconcileDowntime } from '@/lib/downtime';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Calendar as CalendarIcon, ArrowLeft, PlusCircle, Trash2 } from 'lucide-react';
+import { format, parse, isValid } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+const downtimeSchema = z.object({
+  machineNo: z.string().min(1, 'Machine No. is required.'),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'HH:MM'),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'HH:MM'),
+  reason: z.enum(['beam-change', 'yarn-shortage', 'power-cut', 'repair', 'no-weaver', 'other']),
+  note: z.string().trim(),
+}).refine(values => values.startTime !== values.endTime, { message: 'End must differ from start.', path: ['endTime'] });
+
+type DowntimeFormValues = z.infer<typeof downtimeSchema>;
+
+export default function DowntimePageClient() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { records, machines, settings, downtimeEvents, addDowntimeEvent, deleteDowntimeEvent } = useAppState();
+  const [selectedDate, setSelectedDate] = useState<Date>(() => {
+    const parsed = parse(searchParams.get('date') ?? '', 'yyyy-MM-dd', new Date());
+    return isValid(parsed) ? parsed : new Date();
+  });
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [shift, setShift] = useState(() => searchParams.get('shift') ?? getShiftAt(settings.shifts, format(new Date(), 'HH:mm'))?.code ?? settings.shifts[0]?.code ?? '');
+
+  // Settings load after the first render; fall back to the current shift once they are known
+  useEffect(() => {
+    if (!settings.shifts.some(s => s.code === shift)) {
+      setShift(getShiftAt(settings.shifts, format(new Date(), 'HH:mm'))?.code ?? settings.shifts[0]?.code ?? '');
+    }
+  }, [settings.shifts, shift]);
+
+  const form = useForm<DowntimeFormValues>({
+    resolver: zodResolver(downtimeSchema),
+    defaultValues: {
+      machineNo: searchParams.get('machineNo') ?? '',
+      startTime: '',
+      endTime: '',
+      reason: 'repair',
+      note: '',
+    },
+  });
+
+  const dateString = format(selectedDate, 'yyyy-MM-dd');
+  const machineNumbers = useMemo(() => getExpectedMachineNumbers(machines, dateString), [machines, dateString]);
+
+  const shiftEvents = useMemo(() => {
+    return downtimeEvents
+      .filter(e => e.date === dateString && e.shift === shift)
+      .sort((a, b) => compareMachineNo(a.machineNo, b.machineNo) || a.startTime.localeCompare(b.startTime));
+  }, [downtimeEvents, dateString, shift]);
+
+  // Every machine that either lost time on its record or has events logged
+  const reconciliation = useMemo(() => {
+    const shiftRecords = records.filter(r => r.date === dateString && r.shift === shift);
+    const machineNos = Array.from(new Set([...shiftRecords.map(r => r.machineNo), ...shiftEvents.map(e => e.machineNo)])).sort(compareMachineNo);
+    return machineNos
+      .map(machineNo => ({
+        machineNo,
+        ...reconcileDowntime(
+          shiftRecords.find(r => r.machineNo === machineNo),
+          getEventsForShift(shiftEvents, { date: dateString, shift, machineNo })
+        ),
+      }))
+      .filter(r => r.diffSeconds > 0 || r.loggedSeconds > 0);
+  }, [records, shiftEvents, dateString, shift]);
+
+  const onSubmit = (values: DowntimeFormValues) => {
+    if (!shift) {
+      toast({ variant: 'destructive', title: 'No Shift', description: 'Select a shift first.' });
+      return;
+    }
+    addDowntimeEvent({ ...values, date: dateString, shift });
+    toast({ title: 'Downtime Logged', description: `${getDowntimeReasonLabel(values.reason)} on Machine ${values.machineNo}.` });
+    form.reset({ ...values, startTime: '', endTime: '', note: '' });
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center gap-2 p-2">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+              <ArrowLeft />
+          </Button>
+          <CardTitle className='text-primary text-xl'>Downtime Log</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 p-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="pl-3 text-left font-normal h-9 w-full">
+                  {format(selectedDate, 'dd/MM/yy')}
+                  <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={(date) => {
+                      if (date) {
+                          setSelectedDate(date);
+                          setIsDatePickerOpen(false);
+                      }
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            <Select value={shift} onValueChange={setShift}>
+              <SelectTrigger className="h-9"><SelectValue placeholder="Shift" /></SelectTrigger>
+              <SelectContent>
+                {settings.shifts.map(s => <SelectItem key={s.code} value={s.code}>{s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-3 gap-2">
+              <FormField control={form.control} name="machineNo" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-bold text-[9px]">M/C No</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-9"><SelectValue placeholder="M/C" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {machineNumbers.map(num => <SelectItem key={num} value={num}>{num}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="startTime" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-bold text-[9px]">From</FormLabel>
+                  <FormControl><Input type="time" {...field} className="h-9" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="endTime" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-bold text-[9px]">To</FormLabel>
+                  <FormControl><Input type="time" {...field} className="h-9" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="reason" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-bold text-[9px]">Reason</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-9"><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {DOWNTIME_REASONS.map(r => <SelectItem key={r.key} value={r.key}>{r.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="note" render={({ field }) => (
+                <FormItem className="col-span-2">
+                  <FormLabel className="font-bold text-[9px]">Note</FormLabel>
+                  <FormControl><Input {...field} className="h-9" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <Button type="submit" className="col-span-3 bg-primary hover:bg-primary/90">
+                <PlusCircle className="mr-2 h-4 w-4" /> Log Downtime
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="p-2">
+          <CardTitle className="text-primary text-xs font-bold">Logged Events</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table className="text-[10px] font-bold">
+            <TableHeader>
+              <TableRow>
+                <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>M/C</TableHead>
+                <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>From</TableHead>
+                <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>To</TableHead>
+                <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Time</TableHead>
+                <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Reason</TableHead>
+                <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Note</TableHead>
+                <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Act</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shiftEvents.map(event => (
+                <TableRow key={event.id}>
+                  <TableCell className={cn(cellPadding, 'text-purple-600')}>{event.machineNo}</TableCell>
+                  <TableCell className={cn(cellPadding, 'text-gray-700')}>{event.startTime}</TableCell>
+                  <TableCell className={cn(cellPadding, 'text-gray-700')}>{event.endTime}</TableCell>
+                  <TableCell className={cn(cellPadding, 'text-pink-600')}>{secondsToTime(getDowntimeSeconds(event))}</TableCell>
+                  <TableCell className={cellPadding}>{getDowntimeReasonLabel(event.reason)}</TableCell>
+                  <TableCell className={cn(cellPadding, 'font-normal')}>{event.note}</TableCell>
+                  <TableCell className={cellPadding}>
+                    <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => deleteDowntimeEvent(event.id)}>
+                      <Trash2 className="h-3 w-3 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {shiftEvents.length === 0 && <p className="text-center text-xs text-muted-foreground py-4">No downtime logged for this shift.</p>}
+        </CardContent>
+      </Card>
+
+      {reconciliation.length > 0 && (
+        <Card className="m-0 shadow-lg border-0">
+          <CardHeader className="p-2">
+            <CardTitle className="text-primary text-xs font-bold">Reconciliation with Diff</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table className="text-[10px] font-bold">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>M/C</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Diff</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Logged</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Unexplained</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciliation.map(r => (
+                  <TableRow key={r.machineNo}>
+                    <TableCell className={cn(cellPadding, 'text-purple-600')}>{r.machineNo}</TableCell>
+                    <TableCell className={cn(cellPadding, 'text-pink-600')}>{secondsToTime(r.diffSeconds)}</TableCell>
+                    <TableCell className={cn(cellPadding, 'text-gray-700')}>{secondsToTime(r.loggedSeconds)}</TableCell>
+                    <TableCell className={cn(cellPadding, r.unexplainedSeconds < 0 ? 'text-red-700' : r.unexplainedSeconds > 0 ? 'text-orange-600' : 'text-green-600')}>
+                      {r.unexplainedSeconds < 0 ? `-${secondsToTime(-r.unexplainedSeconds)} over` : secondsToTime(r.unexplainedSeconds)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
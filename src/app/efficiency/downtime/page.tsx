@@ -0,0 +1,11 @@
+import React, { Suspense } from 'react';
+import DowntimePageClient from './DowntimePageClient';
+import { Skeleton } from '@/components/ui/skeleton';
+
+export default function DowntimePage() {
+  return (
+    <Suspense fallback={<div className="p-1"><Skeleton className="h-64 w-full" /></div>}>
+        <DowntimePageClient />
+    </Suspense>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAppState } from '@/hooks/use-app-state';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import type { SheetRow } from '@/lib/csv';
+import { IMPORT_FIELDS, buildImportRows, guessColumnMapping, type ColumnMapping, type ImportField } from '@/lib/record-import';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+
+// Rows listed in the review; the counts above the table cover the whole file
+const MAX_LISTED_ROWS = 200;
+
+type Step = 'file' | 'map' | 'review';
+
+export default function ImportRecordsPage() {
+  const router = useRouter();
+  const { records, addRecords, settings, qualities, operators } = useAppState();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('file');
+  const [isReading, setIsReading] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<SheetRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const headers = rows[0]?.cells ?? [];
+  const missingFields = mapping ? IMPORT_FIELDS.filter(f => f.required && mapping[f.key] < 0) : [];
+
+  const importRows = useMemo(() => {
+    if (step !== 'review' || !mapping) return [];
+    return buildImportRows(rows, mapping, { shifts: settings.shifts, qualities, operators, records });
+  }, [step, rows, mapping, settings.shifts, qualities, operators, records]);
+
+  const readyRows = importRows.filter(r => r.record && !r.duplicate);
+  const invalidRows = importRows.filter(r => r.errors.length > 0);
+  const duplicateRows = importRows.filter(r => r.duplicate);
+  const listedRows = importRows.filter(r => r.errors.length > 0 || r.duplicate).slice(0, MAX_LISTED_ROWS);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const fileRows = await readSpreadsheet(file);
+      if (fileRows.length < 2) {
+        toast({ title: 'Nothing to Import', description: 'The file needs a header row and at least one data row.', variant: 'destructive' });
+        return;
+      }
+      setFileName(file.name);
+      setRows(fileRows);
+      setMapping(guessColumnMapping(fileRows[0].cells));
+      setStep('map');
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      toast({ title: 'Could Not Read File', description: 'Use a .csv file or an .xlsx workbook.', variant: 'destructive' });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => prev && { ...prev, [field]: value === 'none' ? -1 : Number(value) });
+  };
+
+  const handleImport = () => {
+    addRecords(readyRows.map(r => r.record!));
+    toast({
+      title: 'Records Imported',
+      description: `${readyRows.length} records added.${duplicateRows.length > 0 ? ` ${duplicateRows.length} duplicates skipped.` : ''}${invalidRows.length > 0 ? ` ${invalidRows.length} rows with errors skipped.` : ''}`,
+    });
+    router.push('/efficiency');
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center gap-2 p-2">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+              <ArrowLeft />
+          </Button>
+          <div>
+            <CardTitle className='text-primary text-xl'>Import Records</CardTitle>
+            <CardDescription className='text-xs'>Bring in register data from a CSV file or the first sheet of an Excel workbook.</CardDescription>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {step === 'file' && (
+        <Card className="m-0 shadow-lg border-0">
+          <CardContent className="flex flex-col items-center gap-2 p-4 text-center">
+            <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+            <p className="text-xs text-muted-foreground">
+              One row per machine per shift, with a header row. Dates as DD/MM/YYYY and times as HH:MM:SS.
+            </p>
+            <input type="file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={isReading}>
+              {isReading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Choose File
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'map' && mapping && (
+        <Card className="m-0 shadow-lg border-0">
+          <CardHeader className="p-2">
+            <CardTitle className="text-primary text-lg">Match Columns</CardTitle>
+            <CardDescription className="text-xs">{fileName}: {rows.length - 1} data rows. Pick the column that holds each field.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 p-2">
+            <div className="grid grid-cols-2 gap-2">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">{field.label}{field.required && <span className="text-destructive"> *</span>}</Label>
+                  <Select value={mapping[field.key] >= 0 ? String(mapping[field.key]) : 'none'} onValueChange={(value) => updateMapping(field.key, value)}>
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">{field.key === 'time' ? 'Not in file (use shift start)' : 'Not in file'}</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-xs text-destructive">Required: {missingFields.map(f => f.label).join(', ')}.</p>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" size="sm" onClick={() => setStep('file')}>Back</Button>
+              <Button size="sm" onClick={() => setStep('review')} disabled={missingFields.length > 0}>Check Rows</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'review' && (
+        <Card className="m-0 shadow-lg border-0">
+          <CardHeader className="p-2">
+            <CardTitle className="text-primary text-lg">Review</CardTitle>
+            <CardDescription className="text-xs">Rows with errors and duplicates of an existing shift are skipped.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 p-2">
+            <div className="grid grid-cols-3 gap-2 text-xs">
+              <div>
+                <p className="text-muted-foreground">Ready</p>
+                <p className="font-bold text-green-600">{readyRows.length}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Duplicates</p>
+                <p className="font-bold text-orange-600">{duplicateRows.length}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Errors</p>
+                <p className="font-bold text-red-700">{invalidRows.length}</p>
+              </div>
+            </div>
+
+            {listedRows.length > 0 && (
+              <Table className="text-[10px] font-bold">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Row</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {listedRows.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className={cn(cellPadding, 'align-top')}>{row.rowNumber}</TableCell>
+                      <TableCell className={cn(cellPadding, row.errors.length > 0 ? 'text-red-700' : 'text-orange-600')}>
+                        {row.errors.length > 0
+                          ? row.errors.map((error, index) => <p key={index}>{error}</p>)
+                          : row.duplicate === 'existing'
+                            ? `M/C ${row.record!.machineNo} already has a record for ${row.record!.date} ${row.record!.shift}.`
+                            : `Repeats an earlier row for M/C ${row.record!.machineNo} on ${row.record!.date} ${row.record!.shift}.`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {invalidRows.length + duplicateRows.length > MAX_LISTED_ROWS && (
+              <p className="text-[10px] text-muted-foreground">Showing the first {MAX_LISTED_ROWS} rows with problems.</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" size="sm" onClick={() => setStep('map')}>Back</Button>
+              <Button size="sm" className="bg-accent hover:bg-accent/90" onClick={handleImport} disabled={readyRows.length === 0}>
+                Import {readyRows.length} Records
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { findDuplicateRecord } from '@/lib/record-form';
+import { getShiftName } from '@/lib/shifts';
+import { getTrashDaysLeft, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import type { LoomRecord } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, ArchiveRestore, Trash2 } from 'lucide-react';
+
+export default function TrashPage() {
+  const router = useRouter();
+  const { records, deletedRecords, restoreRecord, settings } = useAppState();
+
+  const sortedRecords = useMemo(() => {
+    return [...deletedRecords].sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  }, [deletedRecords]);
+
+  const handleRestore = (record: LoomRecord) => {
+    restoreRecord(record.id);
+    toast({ title: 'Record Restored', description: `Machine ${record.machineNo} on ${format(parseISO(record.date), 'dd/MM/yy')} is back in the records.` });
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center gap-2 p-2">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+              <ArrowLeft />
+          </Button>
+          <div>
+            <CardTitle className='text-primary text-xl'>Trash</CardTitle>
+            <CardDescription className='text-xs'>Deleted records can be restored for {TRASH_RETENTION_DAYS} days, then they are removed for good.</CardDescription>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {sortedRecords.length > 0 && (
+        <Card className="m-0 shadow-lg border-0">
+          <CardContent className="p-0">
+            <Table className="text-[10px] font-bold">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-purple-600')}>M/C</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Date</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Shift</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-teal-600')}>Weft</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Deleted</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Days Left</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRecords.map(record => {
+                  // A new record for the same shift was entered after the delete; restoring would duplicate it.
+                  const replacement = findDuplicateRecord(records, record);
+                  return (
+                    <TableRow key={record.id}>
+                      <TableCell className={cn(cellPadding, 'text-purple-600')}>{record.machineNo}</TableCell>
+                      <TableCell className={cellPadding}>{format(parseISO(record.date), 'dd/MM/yy')}</TableCell>
+                      <TableCell className={cellPadding}>{getShiftName(settings.shifts, record.shift)}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-teal-600')}>{record.weftMeter}</TableCell>
+                      <TableCell className={cellPadding}>{record.deletedAt ? format(parseISO(record.deletedAt), 'dd/MM HH:mm') : '-'}</TableCell>
+                      <TableCell className={cellPadding}>{getTrashDaysLeft(record)}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-right')}>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 px-2 text-[10px]"
+                          disabled={!!replacement}
+                          title={replacement ? 'Another record exists for this machine and shift.' : undefined}
+                          onClick={() => handleRestore(record)}
+                        >
+                          <ArchiveRestore className="h-3 w-3 mr-1" /> Restore
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {sortedRecords.length === 0 && (
+        <div className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+          <Trash2 className="h-8 w-8" />
+          <p className="text-sm">The trash is empty.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Calendar as CalendarIcon, Cylinder, Edit, Factory } from 'lucide-react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format, parseISO, subDays } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { useAppState } from '@/hooks/use-app-state';
+import { useIndexedRecords } from '@/hooks/use-indexed-records';
+import { getQualityMap, getQualityName, processRecordsWithQualities } from '@/lib/qualities';
+import { buildMachineDays, summarizeMachineHistory, type MachineDay } from '@/lib/machine-history';
+import { getBeamStatus, sortBeams } from '@/lib/beams';
+import { getShiftName } from '@/lib/shifts';
+import type { CalculatedLoomRecord } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface TrendChartProps {
+  title: string;
+  data: MachineDay[];
+  dataKey: keyof MachineDay;
+  color: string;
+  kind: 'bar' | 'line';
+  threshold?: number;
+}
+
+function TrendChart({ title, data, dataKey, color, kind, threshold }: TrendChartProps) {
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="p-2">
+        <CardTitle className="text-sm font-bold text-primary">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ResponsiveContainer width="100%" height={160}>
+          {kind === 'bar' ? (
+            <BarChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" fontSize={10} />
+              <YAxis fontSize={10} />
+              <Tooltip contentStyle={{ fontSize: "12px" }} formatter={(value: number) => value.toFixed(1)} />
+              <Bar dataKey={dataKey} fill={color} name={title} />
+            </BarChart>
+          ) : (
+            <LineChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" fontSize={10} />
+              <YAxis fontSize={10} domain={['auto', 'auto']} />
+              <Tooltip contentStyle={{ fontSize: "12px" }} formatter={(value: number) => value.toFixed(1)} />
+              {threshold !== undefined && <ReferenceLine y={threshold} stroke="#b91c1c" strokeDasharray="4 4" />}
+              <Line type="monotone" dataKey={dataKey} stroke={color} strokeWidth={2} dot={{ r: 2 }} name={title} />
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MachineDetailPage() {
+  const router = useRouter();
+  const params = useParams<{ machineNo: string }>();
+  const machineNo = decodeURIComponent(params.machineNo);
+  const { records, machines, qualities, beams, settings, isInitialized } = useAppState();
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  });
+
+  const machine = useMemo(() => machines.find(m => m.machineNo === machineNo), [machines, machineNo]);
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+
+  const allMachineRecords = useIndexedRecords('machineNo', machineNo);
+
+  const machineRecords = useMemo(() => {
+    const from = dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : null;
+    const to = dateRange?.to ? format(dateRange.to, 'yyyy-MM-dd') : from;
+    const matching = allMachineRecords.filter(r => (!from || r.date >= from) && (!to || r.date <= to));
+    return processRecordsWithQualities(matching, qualityMap)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.time.localeCompare(a.time));
+  }, [allMachineRecords, dateRange, qualityMap]);
+
+  const days = useMemo(() => buildMachineDays(machineRecords), [machineRecords]);
+  const summary = useMemo(() => summarizeMachineHistory(machineRecords), [machineRecords]);
+
+  const machineBeams = useMemo(() => {
+    return sortBeams(beams.filter(b => b.machineNo === machineNo)).map(beam => getBeamStatus(beam, beams, records));
+  }, [beams, records, machineNo]);
+
+  const cellPadding = "p-[2px]";
+
+  if (!isInitialized) {
+    return <div className="p-1"><Skeleton className="h-64 w-full" /></div>;
+  }
+
+  const describeShift = (r: CalculatedLoomRecord) => `${format(parseISO(r.date), 'dd/MM/yy')} ${getShiftName(settings.shifts, r.shift)}`;
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center gap-2 p-2">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+              <ArrowLeft />
+          </Button>
+          <div>
+            <CardTitle className='text-primary text-xl'>Machine {machineNo}</CardTitle>
+            <CardDescription className='text-xs'>
+              {machine
+                ? [machine.shed, machine.makeModel, machine.reedWidth > 0 && `${machine.reedWidth}" reed`, !machine.active && 'Retired'].filter(Boolean).join(' - ') || 'History and trends for this loom.'
+                : 'Not in the machine registry.'}
+            </CardDescription>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-start text-left font-normal bg-card h-9">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {dateRange?.from ? (dateRange.to ? `${format(dateRange.from, 'dd/MM/yy')} - ${format(dateRange.to, 'dd/MM/yy')}` : format(dateRange.from, 'dd/MM/yy')) : <span>Pick a date</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar initialFocus mode="range" defaultMonth={dateRange?.from} selected={dateRange} onSelect={setDateRange} numberOfMonths={2} />
+        </PopoverContent>
+      </Popover>
+
+      {machineRecords.length === 0 ? (
+        <Card className="m-0 shadow-lg border-0">
+          <CardContent className="flex flex-col items-center gap-2 p-4 text-center">
+            <Factory className="h-8 w-8 text-muted-foreground" />
+            <p className="text-xs text-muted-foreground">No records for machine {machineNo} in this range.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card className="m-0 shadow-lg border-0">
+            <CardContent className="grid grid-cols-3 gap-2 p-2 text-xs">
+              <div>
+                <p className="text-muted-foreground">Efficiency</p>
+                <p className={cn('font-bold', summary.efficiency < settings.lowEfficiencyThreshold ? 'text-red-700' : 'text-green-600')}>{summary.efficiency.toFixed(2)}%</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Weft</p>
+                <p className="font-bold text-teal-600">{summary.weftMeter.toFixed(1)} m</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Shifts</p>
+                <p className="font-bold">{summary.shifts}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Stops / hr run</p>
+                <p className="font-bold text-orange-600">{summary.stopsPerHour.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">H/R</p>
+                <p className="font-bold text-blue-600">{summary.hr.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">LossPrd</p>
+                <p className="font-bold text-red-700">{summary.lossPrd.toFixed(2)}</p>
+              </div>
+              {summary.best && (
+                <div className="col-span-3 flex justify-between">
+                  <span className="text-muted-foreground">Best shift</span>
+                  <span className="font-bold text-green-600">{describeShift(summary.best)}: {summary.best.efficiency.toFixed(2)}%, {summary.best.weftMeter.toFixed(1)} m</span>
+                </div>
+              )}
+              {summary.worst && (
+                <div className="col-span-3 flex justify-between">
+                  <span className="text-muted-foreground">Worst shift</span>
+                  <span className="font-bold text-red-700">{describeShift(summary.worst)}: {summary.worst.efficiency.toFixed(2)}%, {summary.worst.weftMeter.toFixed(1)} m</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <TrendChart title="Efficiency (%)" data={days} dataKey="efficiency" color="#16a34a" kind="line" threshold={settings.lowEfficiencyThreshold} />
+            <TrendChart title="Weft (m)" data={days} dataKey="weftMeter" color="#0d9488" kind="bar" />
+            <TrendChart title="Stops" data={days} dataKey="stops" color="#ea580c" kind="bar" />
+            <TrendChart title="H/R" data={days} dataKey="hr" color="#2563eb" kind="line" />
+            <TrendChart title="LossPrd" data={days} dataKey="lossPrd" color="#b91c1c" kind="bar" />
+          </div>
+
+          <Card className="m-0 shadow-lg border-0">
+            <CardHeader className="p-2">
+              <CardTitle className="text-primary text-lg">Shifts</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table className="text-[10px] font-bold">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Date</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Shift</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Quality</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Stops</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Weft</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Eff(%)</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>H/R</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Diff</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>LossPrd</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Act</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {machineRecords.map(r => (
+                    <TableRow key={r.id}>
+                      <TableCell className={cn(cellPadding, 'text-gray-700')}>{format(parseISO(r.date), 'dd/MM')}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-gray-700')}>{r.shift}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-gray-700')}>{r.qualityId ? getQualityName(qualityMap, r.qualityId) : '-'}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-orange-600')}>{r.stops}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-teal-600')}>{r.weftMeter.toFixed(1)}</TableCell>
+                      <TableCell className={cn(cellPadding, r.efficiency < settings.lowEfficiencyThreshold ? 'text-red-700' : 'text-green-600')}>{r.efficiency.toFixed(2)}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-blue-600')}>{r.hr.toFixed(2)}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-pink-600')}>{r.diff}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-red-700')}>{r.lossPrd.toFixed(2)}</TableCell>
+                      <TableCell className={cellPadding}>
+                        <Button asChild variant="ghost" size="icon" className="h-5 w-5">
+                          <Link href={`/efficiency/${r.id}/edit`}><Edit className="h-3 w-3" /></Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {machineBeams.length > 0 && (
+        <Card className="m-0 shadow-lg border-0">
+          <CardHeader className="p-2 flex flex-row items-center justify-between">
+            <CardTitle className="text-primary text-lg flex items-center"><Cylinder className="mr-2 h-4 w-4" /> Beams</CardTitle>
+            <Button asChild variant="outline" size="sm" className="h-7 text-xs">
+              <Link href={`/beams?machineNo=${encodeURIComponent(machineNo)}`}>Manage</Link>
+            </Button>
+          </CardHeader>
+          <CardContent className="p-2 pt-0 space-y-1 text-[11px] font-bold">
+            {machineBeams.map(b => (
+              <div key={b.beam.id} className="flex justify-between">
+                <span>
+                  {b.beam.beamNo} ({format(parseISO(b.beam.gaitingDate), 'dd/MM/yy')})
+                  {b.beam.qualityId && ` - ${getQualityName(qualityMap, b.beam.qualityId)}`}
+                </span>
+                <span className={b.running ? 'text-green-700' : 'text-muted-foreground'}>
+                  {b.consumed.toFixed(0)}/{b.beam.length}m{b.running && b.shiftsLeft !== null && `, ends in ${b.shiftsLeft} shifts`}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
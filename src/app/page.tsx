@@ -7,22 +7,46 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ArrowUp, ArrowDown, AlertTriangle, BarChart as BarChartIcon, LayoutDashboard } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, AlertTriangle, BarChart as BarChartIcon, LayoutDashboard, ClipboardCheck, Layers, Cylinder } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { useAppState } from '@/hooks/use-app-state';
-import { calculateEfficiency, timeToSeconds } from '@/lib/calculations';
-import type { LoomRecord } from '@/lib/types';
+import { getAggregate, getGroupKey, groupRecords, indexRecords } from '@/lib/aggregation';
+import { getBeamForecast } from '@/lib/beams';
+import { getCoverageForDates } from '@/lib/coverage';
+import { getActiveMachineNumbers, getMachineHref } from '@/lib/machines';
+import { getShiftName } from '@/lib/shifts';
+import { getQualityMap, processRecordsWithQualities, sortQualities, summarizeByQuality } from '@/lib/qualities';
 import WhatsAppIcon from '@/components/WhatsAppIcon';
-import { format } from 'date-fns';
+import { format, parseISO, subDays } from 'date-fns';
 import { useRouter } from 'next/navigation';
 
 
+const BEAM_ALERT_SHIFTS = 3;
+
 export default function Dashboard() {
-  const { records, settings } = useAppState();
+  const { records: allRecords, settings, machines, qualities, beams } = useAppState();
   const [view, setView] = useState<'card' | 'chart'>('card');
+  const [qualityFilter, setQualityFilter] = useState('all');
   const router = useRouter();
 
-  const today = new Date();
+  // A string so the memos below only recompute when the day changes, not on every render
+  const todayString = format(new Date(), 'yyyy-MM-dd');
+
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+  const qualityOptions = useMemo(() => sortQualities(qualities), [qualities]);
+
+  const records = useMemo(() => {
+    if (qualityFilter === 'all') return allRecords;
+    return allRecords.filter(r => qualityFilter === 'none' ? !r.qualityId : r.qualityId === qualityFilter);
+  }, [allRecords, qualityFilter]);
+
+  // Beams run down whatever quality is woven, so the forecast ignores the quality filter
+  const beamForecast = useMemo(() => getBeamForecast(beams, allRecords), [beams, allRecords]);
+
+  const calculatedRecords = useMemo(() => processRecordsWithQualities(records, qualityMap), [records, qualityMap]);
+  const byMachineDate = useMemo(() => indexRecords(calculatedRecords, ['machine', 'date']), [calculatedRecords]);
+  const byDate = useMemo(() => indexRecords(calculatedRecords, ['date']), [calculatedRecords]);
 
   const performanceData = useMemo(() => {
     const machineData: { [key: string]: { 
@@ -31,127 +55,69 @@ export default function Dashboard() {
         todayWeft: number,
         yesterdayWeft: number
     } } = {};
-    const machineNumbers = Array.from({ length: settings.totalMachines || 0 }, (_, i) => (i + 1).toString());
-
-    machineNumbers.forEach(machineNo => {
-      const todayRecords = records.filter(r => r.machineNo === machineNo && new Date(r.date).toDateString() === today.toDateString());
-      const yesterday = new Date(today);
-      yesterday.setDate(today.getDate() - 1);
-      const yesterdayRecords = records.filter(r => r.machineNo === machineNo && new Date(r.date).toDateString() === yesterday.toDateString());
-
-      const todayTotalRun = todayRecords.reduce((acc, r) => acc + timeToSeconds(r.run), 0);
-      const todayTotalTime = todayRecords.reduce((acc, r) => acc + timeToSeconds(r.total), 0);
-      const todayWeft = todayRecords.reduce((acc, r) => acc + r.weftMeter, 0);
-
-      const yesterdayTotalRun = yesterdayRecords.reduce((acc, r) => acc + timeToSeconds(r.run), 0);
-      const yesterdayTotalTime = yesterdayRecords.reduce((acc, r) => acc + timeToSeconds(r.total), 0);
-      const yesterdayWeft = yesterdayRecords.reduce((acc, r) => acc + r.weftMeter, 0);
+    const yesterdayString = format(subDays(parseISO(todayString), 1), 'yyyy-MM-dd');
 
+    getActiveMachineNumbers(machines).forEach(machineNo => {
+      const todayStats = getAggregate(byMachineDate, [machineNo, todayString]);
+      const yesterdayStats = getAggregate(byMachineDate, [machineNo, yesterdayString]);
       machineData[machineNo] = {
-        todayEfficiency: calculateEfficiency(todayTotalRun, todayTotalTime),
-        yesterdayEfficiency: calculateEfficiency(yesterdayTotalRun, yesterdayTotalTime),
-        todayWeft: todayWeft,
-        yesterdayWeft: yesterdayWeft,
+        todayEfficiency: todayStats.efficiency,
+        yesterdayEfficiency: yesterdayStats.efficiency,
+        todayWeft: todayStats.weftMeter,
+        yesterdayWeft: yesterdayStats.weftMeter,
       };
     });
 
     return machineData;
-  }, [records, today, settings.totalMachines]);
+  }, [byMachineDate, todayString, machines]);
 
   const dailySummary = useMemo(() => {
-    const summary: { date: string; dateObj: Date; totalWeft: number, avgEfficiency: number }[] = [];
-    for (let i = 0; i < 8; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() - i);
-      const dateString = date.toISOString().split('T')[0];
-      const dayRecords = records.filter(r => r.date === dateString);
-      
-      const totalWeft = dayRecords.reduce((acc, r) => acc + r.weftMeter, 0);
-      const totalRun = dayRecords.reduce((acc, r) => acc + timeToSeconds(r.run), 0);
-      const totalTime = dayRecords.reduce((acc, r) => acc + timeToSeconds(r.total), 0);
-      const avgEfficiency = calculateEfficiency(totalRun, totalTime);
-
-      summary.push({ date: date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' }), dateObj: date, totalWeft, avgEfficiency });
-    }
-    return summary.reverse();
-  }, [records, today]);
+    return Array.from({ length: 8 }, (_, i) => {
+      const date = subDays(parseISO(todayString), 7 - i);
+      const dayStats = getAggregate(byDate, [format(date, 'yyyy-MM-dd')]);
+      return {
+        date: date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' }),
+        dateObj: date,
+        totalWeft: dayStats.weftMeter,
+        avgEfficiency: dayStats.efficiency,
+      };
+    });
+  }, [byDate, todayString]);
 
   const lowEfficiencyAlerts = useMemo(() => {
-    const threeDaysAgo = new Date(today);
-    threeDaysAgo.setDate(today.getDate() - 2); // 3 days including today
-    threeDaysAgo.setHours(0,0,0,0);
-
-    const recentRecords = records.filter(r => new Date(r.date) >= threeDaysAgo);
-    
-    const machineEfficiencies: { [key: string]: { totalRun: number, totalTime: number, recordCount: number, totalStops: number } } = {};
-
-    recentRecords.forEach(r => {
-      if (!machineEfficiencies[r.machineNo]) {
-        machineEfficiencies[r.machineNo] = { totalRun: 0, totalTime: 0, recordCount: 0, totalStops: 0 };
-      }
-      machineEfficiencies[r.machineNo].totalRun += timeToSeconds(r.run);
-      machineEfficiencies[r.machineNo].totalTime += timeToSeconds(r.total);
-      machineEfficiencies[r.machineNo].totalStops += r.stops;
-      machineEfficiencies[r.machineNo].recordCount++;
-    });
-    
-    const alerts: { machineNo: string; avgEfficiency: number, totalStops: number, data: {date: string, efficiency: number, stops: number}[] } = [];
-    Object.entries(machineEfficiencies).forEach(([machineNo, data]) => {
-      if (data.recordCount === 0) return;
-
-      const avgEfficiency = calculateEfficiency(data.totalRun, data.totalTime);
-      if (avgEfficiency < settings.lowEfficiencyThreshold) {
-        
-        const machineRecordsByDate: {[key: string]: LoomRecord[]} = {};
-        recentRecords.filter(r => r.machineNo === machineNo).forEach(r => {
-          if(!machineRecordsByDate[r.date]) machineRecordsByDate[r.date] = [];
-          machineRecordsByDate[r.date].push(r);
-        });
-
-        const efficiencyByDate = Object.entries(machineRecordsByDate).map(([date, dateRecords]) => {
-          const totalRun = dateRecords.reduce((sum, r) => sum + timeToSeconds(r.run), 0);
-          const totalTime = dateRecords.reduce((sum, r) => sum + timeToSeconds(r.total), 0);
-          const totalStops = dateRecords.reduce((sum, r) => sum + r.stops, 0);
-          return { 
-            date: format(new Date(date), 'dd/MM/yy'),
-            efficiency: calculateEfficiency(totalRun, totalTime),
-            stops: totalStops
-          };
-        }).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-        alerts.push({ machineNo, avgEfficiency, totalStops: data.totalStops, data: efficiencyByDate });
-      }
-    });
-    return alerts;
-  }, [records, settings.lowEfficiencyThreshold, today]);
+    // 3 days including today
+    const from = format(subDays(parseISO(todayString), 2), 'yyyy-MM-dd');
+    const recentRecords = calculatedRecords.filter(r => r.date >= from);
+
+    return groupRecords(recentRecords, ['machine'])
+      .filter(machine => machine.efficiency < settings.lowEfficiencyThreshold)
+      .map(machine => ({
+        machineNo: machine.values.machine!,
+        avgEfficiency: machine.efficiency,
+        totalStops: machine.stops,
+        data: groupRecords(machine.records, ['date']).reverse().map(day => ({
+          date: format(parseISO(day.values.date!), 'dd/MM/yy'),
+          efficiency: day.efficiency,
+          stops: day.stops,
+        })),
+      }));
+  }, [calculatedRecords, settings.lowEfficiencyThreshold, todayString]);
   
   const chartData = useMemo(() => {
-    const data: { [key: string]: { date: string, weft: number } } = {};
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-    // Initialize data for the last 30 days
-    for (let i = 0; i < 30; i++) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        const dateString = date.toISOString().split('T')[0];
-        data[dateString] = {
-            date: format(date, 'dd/MM'),
-            weft: 0
-        };
-    }
-
-    const last30DaysRecords = records.filter(r => new Date(r.date) >= thirtyDaysAgo);
-    
-    last30DaysRecords.forEach(record => {
-        if (data[record.date]) {
-            data[record.date].weft += record.weftMeter;
-        }
+    return Array.from({ length: 30 }, (_, i) => {
+      const date = subDays(parseISO(todayString), 29 - i);
+      return { date: format(date, 'dd/MM'), weft: getAggregate(byDate, [format(date, 'yyyy-MM-dd')]).weftMeter };
     });
+  }, [byDate, todayString]);
 
-    return Object.values(data).sort((a, b) => new Date(a.date.split('/').reverse().join('-')).getTime() - new Date(b.date.split('/').reverse().join('-')).getTime());
-  }, [records]);
+  // Coverage is about missing machine entries, so it ignores the quality filter
+  const todayCoverage = useMemo(() => {
+    return getCoverageForDates(allRecords, machines, [todayString], settings.shifts.map(s => s.code));
+  }, [allRecords, machines, todayString, settings.shifts]);
 
+  const todayQualitySummary = useMemo(() => {
+    return summarizeByQuality(byDate.get(getGroupKey([todayString]))?.records ?? [], qualityMap);
+  }, [byDate, qualityMap, todayString]);
 
   const handleWhatsAppShare = () => {
     if (!settings.whatsAppNumber) {
@@ -188,6 +154,19 @@ export default function Dashboard() {
             </Button>
         </div>
 
+        {qualities.length > 0 && (
+            <Select value={qualityFilter} onValueChange={setQualityFilter}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="all">All Qualities</SelectItem>
+                    <SelectItem value="none">No Quality</SelectItem>
+                    {qualityOptions.map(quality => (
+                        <SelectItem key={quality.id} value={quality.id}>{quality.name}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        )}
+
         {view === 'card' && (
             <>
                 <section>
@@ -231,7 +210,7 @@ export default function Dashboard() {
                             <TableBody>
                                 {lowEfficiencyAlerts.map(alert => (
                                 <TableRow key={alert.machineNo} className="font-bold border-red-300">
-                                    <TableCell className='p-1'>{alert.machineNo}</TableCell>
+                                    <TableCell className='p-1'><Link href={getMachineHref(alert.machineNo)} className="underline">{alert.machineNo}</Link></TableCell>
                                     <TableCell className='p-1'>{alert.avgEfficiency.toFixed(2)}%</TableCell>
                                     <TableCell className='p-1'>{alert.totalStops}</TableCell>
                                 </TableRow>
@@ -244,6 +223,85 @@ export default function Dashboard() {
                 </section>
                 )}
 
+                <section>
+                <Link href="/coverage">
+                    <Card className="shadow-lg border-none">
+                        <CardHeader className="p-2 flex flex-row items-center justify-between">
+                            <CardTitle className="text-sm font-bold text-primary flex items-center">
+                                <ClipboardCheck className="mr-2 h-4 w-4" /> Today's Entries
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="p-2 pt-0 grid grid-cols-2 gap-2 text-[11px] font-bold">
+                            {todayCoverage.map(c => (
+                                <div key={c.shift} className={c.missing.length > 0 ? 'text-red-700' : 'text-green-700'}>
+                                    <div className="flex justify-between"><span>{getShiftName(settings.shifts, c.shift)}:</span><span>{c.recorded}/{c.expected}</span></div>
+                                    {c.missing.length > 0 && (
+                                        <p className="font-normal truncate">Missing: {c.missing.join(', ')}</p>
+                                    )}
+                                </div>
+                            ))}
+                        </CardContent>
+                    </Card>
+                </Link>
+                </section>
+
+                <section>
+                <Link href="/beams">
+                    <Card className="shadow-lg border-none">
+                        <CardHeader className="p-2">
+                            <CardTitle className="text-sm font-bold text-primary flex items-center">
+                                <Cylinder className="mr-2 h-4 w-4" /> Beams
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="p-2 pt-0 grid grid-cols-2 gap-x-2 text-[11px] font-bold">
+                            {beamForecast.map(b => (
+                                <div key={b.beam.id} className={`flex justify-between ${b.shiftsLeft !== null && b.shiftsLeft <= BEAM_ALERT_SHIFTS ? 'text-red-700' : 'text-green-700'}`}>
+                                    <span>M {b.beam.machineNo} ({b.remaining.toFixed(0)}m):</span>
+                                    <span>{b.shiftsLeft !== null ? `ends in ${b.shiftsLeft} shifts` : '-'}</span>
+                                </div>
+                            ))}
+                            {beamForecast.length === 0 && <p className="col-span-2 font-normal text-muted-foreground">No beams gaited. Tap to add one.</p>}
+                        </CardContent>
+                    </Card>
+                </Link>
+                </section>
+
+                {qualities.length > 0 && todayQualitySummary.length > 0 && (
+                <section>
+                    <Card className="shadow-lg border-none">
+                        <CardHeader className="p-2">
+                            <CardTitle className="text-sm font-bold text-primary flex items-center">
+                                <Layers className="mr-2 h-4 w-4" /> Quality-wise Today
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="p-0">
+                            <Table className="text-[10px] font-bold">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="p-[2px]">Quality</TableHead>
+                                        <TableHead className="p-[2px]">Eff / Target</TableHead>
+                                        <TableHead className="p-[2px]">Weft / Expected</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {todayQualitySummary.map(q => (
+                                        <TableRow key={q.qualityId}>
+                                            <TableCell className="p-[2px]">{q.name}</TableCell>
+                                            <TableCell className={`p-[2px] ${q.targetEfficiency > 0 && q.efficiency < q.targetEfficiency ? 'text-red-700' : 'text-green-700'}`}>
+                                                {q.efficiency.toFixed(1)}%{q.targetEfficiency > 0 && ` / ${q.targetEfficiency}%`}
+                                            </TableCell>
+                                            <TableCell className={`p-[2px] ${q.expectedPrd > 0 && q.weftMeter < q.expectedPrd ? 'text-red-700' : 'text-green-700'}`}>
+                                                {q.weftMeter.toFixed(0)}m{q.expectedPrd > 0 && ` / ${q.expectedPrd.toFixed(0)}m`}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+                </section>
+                )}
+
                 <section>
                 <h2 className="text-lg font-semibold text-primary mb-2">Today's Performance</h2>
                 <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-4 gap-2">
@@ -253,7 +311,8 @@ export default function Dashboard() {
                     const textColor = data.todayEfficiency >= 95 ? 'text-green-800' : data.todayEfficiency >= 90 ? 'text-yellow-800' : 'text-red-800';
 
                     return (
-                        <Card key={machineNo} className={`shadow-md ${cardColor} ${textColor}`}>
+                        <Link key={machineNo} href={getMachineHref(machineNo)}>
+                        <Card className={`shadow-md ${cardColor} ${textColor}`}>
                             <CardHeader className="p-2 text-center">
                                 <CardTitle className="text-sm font-bold">M {machineNo}</CardTitle>
                             </CardHeader>
@@ -268,6 +327,7 @@ export default function Dashboard() {
                                 </div>
                             </CardContent>
                         </Card>
+                        </Link>
                     );
                     })}
                 </div>
@@ -0,0 +1,307 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter as TFoot } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ChevronLeft, ChevronRight, Download, FileSpreadsheet, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { getQualityMap, processRecordsWithQualities } from '@/lib/qualities';
+import { getOperatorMap, getOperatorName, sortOperators } from '@/lib/operators';
+import { buildWageSheet, getPayPeriod, getPayPeriodDates, shiftPayPeriod, type PayPeriod, type PayPeriodType } from '@/lib/payroll';
+import { toCsv, downloadCsv } from '@/lib/csv';
+import { downloadWageSheetPdf } from '@/lib/wage-sheet-pdf';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+const deductionSchema = z.object({
+  operatorId: z.string().min(1, 'Operator is required.'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date.'),
+  amount: z.coerce.number().positive('Amount must be greater than 0.'),
+  reason: z.string().trim().min(1, 'Reason is required.'),
+});
+
+type DeductionFormValues = z.infer<typeof deductionSchema>;
+
+export default function PayrollPage() {
+  const { records, operators, qualities, wageDeductions, settings, addWageDeduction, deleteWageDeduction } = useAppState();
+  const [period, setPeriod] = useState<PayPeriod>(() => getPayPeriod(new Date(), 'fortnight'));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const form = useForm<DeductionFormValues>({
+    resolver: zodResolver(deductionSchema),
+    defaultValues: { operatorId: '', date: period.end, amount: 0, reason: '' },
+  });
+
+  const operatorMap = useMemo(() => getOperatorMap(operators), [operators]);
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+  const activeOperators = useMemo(() => sortOperators(operators).filter(o => o.active), [operators]);
+  const dates = useMemo(() => getPayPeriodDates(period), [period]);
+
+  const periodRecords = useMemo(() => {
+    return processRecordsWithQualities(records.filter(r => r.date >= period.start && r.date <= period.end), qualityMap);
+  }, [records, period, qualityMap]);
+
+  const wageSheet = useMemo(() => {
+    return buildWageSheet(periodRecords, operatorMap, qualityMap, wageDeductions, settings.payroll, period);
+  }, [periodRecords, operatorMap, qualityMap, wageDeductions, settings.payroll, period]);
+
+  const periodDeductions = useMemo(() => {
+    return wageDeductions
+      .filter(d => d.date >= period.start && d.date <= period.end)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [wageDeductions, period]);
+
+  const unassignedCount = periodRecords.filter(r => !r.operatorId).length;
+
+  const totals = useMemo(() => wageSheet.reduce((acc, row) => ({
+    shifts: acc.shifts + row.shifts,
+    weftMeter: acc.weftMeter + row.weftMeter,
+    earnings: acc.earnings + row.earnings,
+    bonus: acc.bonus + row.bonus,
+    deductions: acc.deductions + row.deductions,
+    net: acc.net + row.net,
+  }), { shifts: 0, weftMeter: 0, earnings: 0, bonus: 0, deductions: 0, net: 0 }), [wageSheet]);
+
+  const periodLabel = `${format(parseISO(period.start), 'dd/MM/yy')} - ${format(parseISO(period.end), 'dd/MM/yy')}`;
+  const fileSuffix = `${format(parseISO(period.start), 'dd-MM-yy')}_to_${format(parseISO(period.end), 'dd-MM-yy')}`;
+
+  const handlePeriodTypeChange = (type: string) => {
+    setPeriod(getPayPeriod(parseISO(period.start), type as PayPeriodType));
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsGenerating(true);
+    try {
+      await downloadWageSheetPdf({ rows: wageSheet, dates, totals, period: periodLabel }, `Laxmi_Shree_Wages_${fileSuffix}.pdf`);
+    } catch (error) {
+      console.error('Failed to generate wage sheet PDF:', error);
+      toast({ title: 'Export Failed', description: 'The PDF could not be created.', variant: 'destructive' });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDownloadCsv = () => {
+    const header = ['Operator', ...dates.map(d => format(parseISO(d), 'dd/MM')), 'Shifts', 'Weft (m)', 'Earnings', 'Bonus', 'Deductions', 'Net'];
+    const rows = wageSheet.map(row => [
+      row.name,
+      ...dates.map(d => row.days[d] ? row.days[d].toFixed(2) : ''),
+      row.shifts,
+      row.weftMeter.toFixed(1),
+      row.earnings.toFixed(2),
+      row.bonus.toFixed(2),
+      row.deductions.toFixed(2),
+      row.net.toFixed(2),
+    ]);
+    const totalRow = ['Total', ...dates.map(() => ''), totals.shifts, totals.weftMeter.toFixed(1), totals.earnings.toFixed(2), totals.bonus.toFixed(2), totals.deductions.toFixed(2), totals.net.toFixed(2)];
+    downloadCsv(toCsv([header, ...rows, totalRow]), `Laxmi_Shree_Wages_${fileSuffix}.csv`);
+  };
+
+  const openDeductionDialog = () => {
+    form.reset({ operatorId: '', date: period.end, amount: 0, reason: '' });
+    setIsDialogOpen(true);
+  };
+
+  const onSubmitDeduction = (values: DeductionFormValues) => {
+    addWageDeduction(values);
+    setIsDialogOpen(false);
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-0 m-0">
+      <Card className="no-print m-0 p-1">
+        <CardContent className="grid grid-cols-2 gap-1 p-0">
+          <Select value={period.type} onValueChange={handlePeriodTypeChange}>
+            <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fortnight">Fortnightly</SelectItem>
+              <SelectItem value="month">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center justify-between gap-1">
+            <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setPeriod(shiftPayPeriod(period, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-xs font-bold text-center">{periodLabel}</span>
+            <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setPeriod(shiftPayPeriod(period, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button onClick={handleDownloadPdf} className="w-full bg-accent hover:bg-accent/90 h-9" disabled={isGenerating || wageSheet.length === 0}>
+            {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            {isGenerating ? 'Generating...' : 'PDF'}
+          </Button>
+          <Button onClick={handleDownloadCsv} variant="outline" className="w-full h-9" disabled={wageSheet.length === 0}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" /> CSV
+          </Button>
+        </CardContent>
+      </Card>
+
+      {unassignedCount > 0 && (
+        <p className="text-[11px] font-bold text-red-700 px-1 no-print">
+          {unassignedCount} records in this period have no operator and are not included in wages.
+        </p>
+      )}
+
+      <div className="print-container">
+        <Card className="m-0 p-0">
+          <CardHeader className='p-1'>
+            <CardTitle className="text-center text-lg font-bold text-primary">Laxmi Shree Wage Sheet</CardTitle>
+            <p className="text-center text-xs text-muted-foreground">{periodLabel}</p>
+          </CardHeader>
+          <CardContent className='p-0'>
+            <div className="overflow-x-auto">
+              <Table className="text-[10px] font-bold print-table">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Operator</TableHead>
+                    {dates.map(date => (
+                      <TableHead key={date} className={cn(cellPadding, 'text-[10px] font-bold text-center')}>{format(parseISO(date), 'dd')}</TableHead>
+                    ))}
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Shifts</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-teal-600')}>Weft</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Earn</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-green-600')}>Bonus</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-red-700')}>Ded</TableHead>
+                    <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-primary')}>Net</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {wageSheet.map(row => (
+                    <TableRow key={row.operatorId}>
+                      <TableCell className={cn(cellPadding, 'text-purple-600 whitespace-nowrap')}>{row.name}</TableCell>
+                      {dates.map(date => (
+                        <TableCell key={date} className={cn(cellPadding, 'text-gray-700 text-center')}>{row.days[date] ? row.days[date].toFixed(0) : ''}</TableCell>
+                      ))}
+                      <TableCell className={cellPadding}>{row.shifts}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-teal-600')}>{row.weftMeter.toFixed(1)}</TableCell>
+                      <TableCell className={cellPadding}>{row.earnings.toFixed(2)}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-green-600')}>{row.bonus.toFixed(2)}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-red-700')}>{row.deductions.toFixed(2)}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-primary')}>{row.net.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                {wageSheet.length > 0 && (
+                  <TFoot>
+                    <TableRow className="font-bold bg-primary/10 text-primary">
+                      <TableCell colSpan={dates.length + 1} className={cellPadding}>Total</TableCell>
+                      <TableCell className={cellPadding}>{totals.shifts}</TableCell>
+                      <TableCell className={cellPadding}>{totals.weftMeter.toFixed(1)}</TableCell>
+                      <TableCell className={cellPadding}>{totals.earnings.toFixed(2)}</TableCell>
+                      <TableCell className={cellPadding}>{totals.bonus.toFixed(2)}</TableCell>
+                      <TableCell className={cellPadding}>{totals.deductions.toFixed(2)}</TableCell>
+                      <TableCell className={cellPadding}>{totals.net.toFixed(2)}</TableCell>
+                    </TableRow>
+                  </TFoot>
+                )}
+              </Table>
+            </div>
+            {wageSheet.length === 0 && <p className="text-center text-muted-foreground py-10">No operator records in this period.</p>}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="no-print border-0 shadow-none">
+        <CardHeader className='p-2 flex flex-row items-center justify-between'>
+          <div>
+            <CardTitle className="text-primary text-lg">Deductions</CardTitle>
+            <CardDescription className='text-xs'>Advances, fines and other amounts taken off this period's wages.</CardDescription>
+          </div>
+          <Button type="button" size="sm" onClick={openDeductionDialog} disabled={activeOperators.length === 0} className="bg-accent hover:bg-accent/90">
+            <PlusCircle className="mr-2 h-4 w-4" /> Add
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table className="text-[10px] font-bold">
+            <TableHeader>
+              <TableRow>
+                <TableHead className={cellPadding}>Date</TableHead>
+                <TableHead className={cellPadding}>Operator</TableHead>
+                <TableHead className={cellPadding}>Reason</TableHead>
+                <TableHead className={cellPadding}>Amount</TableHead>
+                <TableHead className={cellPadding}>Act</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periodDeductions.map(deduction => (
+                <TableRow key={deduction.id}>
+                  <TableCell className={cellPadding}>{format(parseISO(deduction.date), 'dd/MM')}</TableCell>
+                  <TableCell className={cn(cellPadding, 'text-purple-600')}>{getOperatorName(operatorMap, deduction.operatorId)}</TableCell>
+                  <TableCell className={cellPadding}>{deduction.reason}</TableCell>
+                  <TableCell className={cn(cellPadding, 'text-red-700')}>{deduction.amount.toFixed(2)}</TableCell>
+                  <TableCell className={cellPadding}>
+                    <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => deleteWageDeduction(deduction.id)}>
+                      <Trash2 className="h-3 w-3 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {periodDeductions.length === 0 && <p className="text-center text-xs text-muted-foreground py-4">No deductions in this period.</p>}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Deduction</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmitDeduction)} className="grid grid-cols-2 gap-2">
+              <FormField control={form.control} name="operatorId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Operator</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-8"><SelectValue placeholder="Operator" /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {activeOperators.map(o => <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="date" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Date</FormLabel>
+                  <FormControl><Input type="date" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="amount" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Amount</FormLabel>
+                  <FormControl><Input type="number" step="0.01" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="reason" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Reason</FormLabel>
+                  <FormControl><Input {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <DialogFooter className="col-span-2">
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90">Add Deduction</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter as TFoot } from '@/components/ui/table';
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, FileSpreadsheet, Grid3x3, Loader2 } from 'lucide-react';
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { getQualityMap, processRecordsWithQualities } from '@/lib/qualities';
+import { buildEfficiencyMatrix, getMonthDates, type MatrixCell } from '@/lib/efficiency-matrix';
+import { getMachineHref } from '@/lib/machines';
+import { getShiftName } from '@/lib/shifts';
+import { toCsv, downloadCsv } from '@/lib/csv';
+import { downloadMatrixPdf } from '@/lib/matrix-pdf';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+export default function EfficiencyMatrixPage() {
+  const router = useRouter();
+  const { records, machines, qualities, settings } = useAppState();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [shiftFilter, setShiftFilter] = useState('all');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+  const dates = useMemo(() => getMonthDates(month), [month]);
+
+  const matrix = useMemo(() => {
+    const monthRecords = records.filter(r => r.date >= dates[0] && r.date <= dates[dates.length - 1]);
+    const activeMachineNos = machines.filter(m => m.active).map(m => m.machineNo);
+    return buildEfficiencyMatrix(
+      processRecordsWithQualities(monthRecords, qualityMap),
+      dates,
+      activeMachineNos,
+      shiftFilter === 'all' ? undefined : shiftFilter,
+    );
+  }, [records, machines, dates, qualityMap, shiftFilter]);
+
+  const monthLabel = format(month, 'MMMM yyyy');
+  const shiftLabel = shiftFilter === 'all' ? 'All Shifts' : `${getShiftName(settings.shifts, shiftFilter)} Shift`;
+  const fileSuffix = `${format(month, 'MM-yyyy')}${shiftFilter === 'all' ? '' : `_${shiftFilter}`}`;
+
+  const handleDownloadPdf = async () => {
+    setIsGenerating(true);
+    try {
+      await downloadMatrixPdf({
+        matrix,
+        period: monthLabel,
+        filters: shiftLabel,
+        threshold: settings.lowEfficiencyThreshold,
+      }, `Laxmi_Shree_Efficiency_Matrix_${fileSuffix}.pdf`);
+    } catch (error) {
+      console.error('Failed to generate matrix PDF:', error);
+      toast({ title: 'Export Failed', description: 'The PDF could not be created.', variant: 'destructive' });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDownloadCsv = () => {
+    const efficiency = (cell?: MatrixCell) => cell ? cell.efficiency.toFixed(2) : '';
+    const header = ['M/C', ...dates.map(d => format(parseISO(d), 'dd/MM')), 'Avg Eff(%)', 'Weft (m)'];
+    const rows = matrix.rows.map(row => [
+      row.machineNo,
+      ...dates.map(d => efficiency(row.days[d])),
+      row.total.shifts > 0 ? row.total.efficiency.toFixed(2) : '',
+      row.total.weftMeter.toFixed(1),
+    ]);
+    const averageRow = ['Avg Eff(%)', ...dates.map(d => efficiency(matrix.days[d])), matrix.total.efficiency.toFixed(2), ''];
+    const weftRow = ['Weft (m)', ...dates.map(d => matrix.days[d] ? matrix.days[d].weftMeter.toFixed(1) : ''), '', matrix.total.weftMeter.toFixed(1)];
+    downloadCsv(toCsv([header, ...rows, averageRow, weftRow]), `Laxmi_Shree_Efficiency_Matrix_${fileSuffix}.csv`);
+  };
+
+  // Below the alert threshold in red, at or above it in green
+  const efficiencyClass = (cell?: MatrixCell) => {
+    if (!cell) return 'text-muted-foreground';
+    return cell.efficiency < settings.lowEfficiencyThreshold ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800';
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-0 m-0">
+      <Card className="no-print m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center gap-2 p-2">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+              <ArrowLeft />
+          </Button>
+          <div>
+            <CardTitle className='text-primary text-xl'>Efficiency Matrix</CardTitle>
+            <CardDescription className='text-xs'>Each machine's efficiency day by day. Red cells are below {settings.lowEfficiencyThreshold}%.</CardDescription>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card className="no-print m-0 p-1">
+        <CardContent className="grid grid-cols-2 gap-1 p-0">
+          <div className="flex items-center justify-between gap-1">
+            <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setMonth(prev => addMonths(prev, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-xs font-bold text-center">{monthLabel}</span>
+            <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setMonth(prev => addMonths(prev, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Select value={shiftFilter} onValueChange={setShiftFilter}>
+            <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Shifts</SelectItem>
+              {settings.shifts.map(s => <SelectItem key={s.code} value={s.code}>{s.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleDownloadPdf} className="w-full bg-accent hover:bg-accent/90 h-9" disabled={isGenerating || matrix.rows.length === 0}>
+            {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            {isGenerating ? 'Generating...' : 'PDF'}
+          </Button>
+          <Button onClick={handleDownloadCsv} variant="outline" className="w-full h-9" disabled={matrix.rows.length === 0}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" /> CSV
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="print-container">
+        <Card className="m-0 p-0">
+          <CardHeader className='p-1'>
+            <CardTitle className="text-center text-lg font-bold text-primary">Laxmi Shree Efficiency Matrix</CardTitle>
+            <p className="text-center text-xs text-muted-foreground">{monthLabel} - {shiftLabel}</p>
+          </CardHeader>
+          <CardContent className='p-0'>
+            {matrix.rows.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table className="text-[10px] font-bold print-table">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>M/C</TableHead>
+                      {dates.map(date => (
+                        <TableHead key={date} className={cn(cellPadding, 'text-[10px] font-bold text-center')}>{format(parseISO(date), 'dd')}</TableHead>
+                      ))}
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-green-600')}>Avg</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-teal-600')}>Weft</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {matrix.rows.map(row => (
+                      <TableRow key={row.machineNo}>
+                        <TableCell className={cn(cellPadding, 'text-purple-600')}><Link href={getMachineHref(row.machineNo)} className="hover:underline">{row.machineNo}</Link></TableCell>
+                        {dates.map(date => {
+                          const cell = row.days[date];
+                          return (
+                            <TableCell
+                              key={date}
+                              className={cn(cellPadding, 'text-center', efficiencyClass(cell))}
+                              title={cell ? `${cell.efficiency.toFixed(2)}% - ${cell.weftMeter.toFixed(1)} m in ${cell.shifts} shifts` : undefined}
+                            >
+                              {cell ? cell.efficiency.toFixed(0) : ''}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className={cn(cellPadding, row.total.shifts > 0 ? efficiencyClass(row.total) : '')}>
+                          {row.total.shifts > 0 ? row.total.efficiency.toFixed(1) : '-'}
+                        </TableCell>
+                        <TableCell className={cn(cellPadding, 'text-teal-600')}>{row.total.weftMeter.toFixed(1)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TFoot>
+                    <TableRow className="font-bold bg-primary/10 text-primary">
+                      <TableCell className={cellPadding}>Avg</TableCell>
+                      {dates.map(date => (
+                        <TableCell key={date} className={cn(cellPadding, 'text-center')}>
+                          {matrix.days[date] ? matrix.days[date].efficiency.toFixed(0) : ''}
+                        </TableCell>
+                      ))}
+                      <TableCell className={cellPadding}>{matrix.total.shifts > 0 ? matrix.total.efficiency.toFixed(1) : '-'}</TableCell>
+                      <TableCell className={cellPadding}></TableCell>
+                    </TableRow>
+                    <TableRow className="font-bold bg-primary/10 text-teal-600">
+                      <TableCell className={cellPadding}>Weft</TableCell>
+                      {dates.map(date => (
+                        <TableCell key={date} className={cn(cellPadding, 'text-center')}>
+                          {matrix.days[date] ? matrix.days[date].weftMeter.toFixed(0) : ''}
+                        </TableCell>
+                      ))}
+                      <TableCell className={cellPadding}></TableCell>
+                      <TableCell className={cellPadding}>{matrix.total.weftMeter.toFixed(1)}</TableCell>
+                    </TableRow>
+                  </TFoot>
+                </Table>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-2 py-10 text-center">
+                <Grid3x3 className="h-8 w-8 text-muted-foreground" />
+                <p className="text-xs text-muted-foreground">No machines or records for {monthLabel}.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,28 @@
 'use client';
 
-import React, { useState, useMemo, useRef } from 'react';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter as TFoot } from '@/components/ui/table';
-import { Calendar as CalendarIcon, Download, Loader2 } from 'lucide-react';
+import { Calendar as CalendarIcon, Download, FileSpreadsheet, Grid3x3, Loader2 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { DateRange } from 'react-day-picker';
 import { useAppState } from '@/hooks/use-app-state';
-import { processRecord } from '@/lib/calculations';
+import { toast } from '@/hooks/use-toast';
+import { aggregateRecords, groupRecords } from '@/lib/aggregation';
+import { getQualityMap, getQualityName, processRecordsWithQualities, sortQualities } from '@/lib/qualities';
+import { getOperatorMap, summarizeByOperator } from '@/lib/operators';
+import { summarizeLossReasons } from '@/lib/downtime';
+import { sortMachines, getMachineLabel, getMachineHref } from '@/lib/machines';
+import { getShiftCodesInUse, getShiftName } from '@/lib/shifts';
+import { downloadReportPdf } from '@/lib/report-pdf';
+import { downloadReportXlsx } from '@/lib/report-xlsx';
+import { formatStopBreakdown } from '@/lib/stops';
+import { StopParetoChart } from '@/components/StopParetoChart';
 import type { CalculatedLoomRecord } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
@@ -21,73 +30,66 @@ type SortKey = keyof CalculatedLoomRecord | 'lossPrd';
 type SortDirection = 'asc' | 'desc';
 
 export default function ReportPage() {
-  const { records, settings } = useAppState();
+  const { records, machines, qualities, operators, settings, downtimeEvents } = useAppState();
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: new Date(new Date().setDate(new Date().getDate() - 7)),
     to: new Date(),
   });
   const [machineFilter, setMachineFilter] = useState('all');
-  const [shiftFilter, setShiftFilter] = useState<'all' | 'Day' | 'Night'>('all');
+  const [shiftFilter, setShiftFilter] = useState('all');
+  const [qualityFilter, setQualityFilter] = useState('all');
+  const [groupBy, setGroupBy] = useState<'date' | 'quality'>('date');
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection } | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-
-  const componentRef = useRef<HTMLDivElement>(null);
+  const [isExportingXlsx, setIsExportingXlsx] = useState(false);
 
   const handleDownloadPdf = async () => {
-    const reportElement = componentRef.current;
-    if (!reportElement) return;
-
     setIsGenerating(true);
-    
-    reportElement.classList.add('pdf-generation');
-
-    const canvas = await html2canvas(reportElement, {
-        scale: 2, 
-        useCORS: true,
-        logging: false,
-    });
-    
-    reportElement.classList.remove('pdf-generation');
-    
-    const imgData = canvas.toDataURL('image/png');
-    const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4'
-    });
-
-    const pdfWidth = pdf.internal.pageSize.getWidth();
-    const pdfHeight = pdf.internal.pageSize.getHeight();
-    const margin = 0.25;
-    
-    const canvasWidth = canvas.width;
-    const canvasHeight = canvas.height;
-    
-    const imgWidth = pdfWidth - (margin * 2);
-    const imgHeight = (canvasHeight * imgWidth) / canvasWidth;
-    
-    let heightLeft = imgHeight;
-    let position = 0;
-
-    pdf.addImage(imgData, 'PNG', margin, margin + position, imgWidth, imgHeight);
-    heightLeft -= (pdfHeight - (margin * 2));
-
-    while (heightLeft > 0) {
-      position -= (pdfHeight - (margin * 2));
-      pdf.addPage();
-      pdf.addImage(imgData, 'PNG', margin, margin + position, imgWidth, imgHeight);
-      heightLeft -= (pdfHeight - (margin * 2));
+    const fromDate = dateRange?.from ? format(dateRange.from, 'dd-MM-yy') : 'start';
+    const toDate = dateRange?.to ? format(dateRange.to, 'dd-MM-yy') : 'end';
+    try {
+      await downloadReportPdf({
+        groups: groupedRecords,
+        shifts: settings.shifts,
+        shiftCodes,
+        period: reportPeriod,
+        filters: filterSummary,
+        lossReasons,
+        operatorSummary,
+      }, `Laxmi_Shree_Report_${fromDate}_to_${toDate}.pdf`);
+    } catch (error) {
+      console.error('Failed to generate report PDF:', error);
+      toast({ title: 'Export Failed', description: 'The PDF could not be created.', variant: 'destructive' });
+    } finally {
+      setIsGenerating(false);
     }
+  };
 
+  const handleDownloadXlsx = async () => {
+    setIsExportingXlsx(true);
     const fromDate = dateRange?.from ? format(dateRange.from, 'dd-MM-yy') : 'start';
     const toDate = dateRange?.to ? format(dateRange.to, 'dd-MM-yy') : 'end';
-    pdf.save(`Laxmi_Shree_Report_${fromDate}_to_${toDate}.pdf`);
-    setIsGenerating(false);
+    try {
+      await downloadReportXlsx({
+        records: filteredRecords,
+        shifts: settings.shifts,
+        shiftCodes,
+        period: reportPeriod,
+        filters: filterSummary,
+      }, `Laxmi_Shree_Report_${fromDate}_to_${toDate}.xlsx`);
+    } catch (error) {
+      console.error('Failed to export report workbook:', error);
+      toast({ title: 'Export Failed', description: 'The Excel file could not be created.', variant: 'destructive' });
+    } finally {
+      setIsExportingXlsx(false);
+    }
   };
 
 
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+
   const filteredRecords = useMemo(() => {
-    let filtered = records
+    const matching = records
       .filter(r => {
         const recordDate = new Date(r.date);
         const from = dateRange?.from ? new Date(dateRange.from.setHours(0,0,0,0)) : null;
@@ -96,10 +98,11 @@ export default function ReportPage() {
         const isDateInRange = (!from || recordDate >= from) && (!to || recordDate <= to);
         const isMachineMatch = machineFilter === 'all' || r.machineNo === machineFilter;
         const isShiftMatch = shiftFilter === 'all' || r.shift === shiftFilter;
+        const isQualityMatch = qualityFilter === 'all' || (qualityFilter === 'none' ? !r.qualityId : r.qualityId === qualityFilter);
         
-        return isDateInRange && isMachineMatch && isShiftMatch;
-      })
-      .map(processRecord);
+        return isDateInRange && isMachineMatch && isShiftMatch && isQualityMatch;
+      });
+    const filtered = processRecordsWithQualities(matching, qualityMap);
     
     if (sortConfig !== null) {
       filtered.sort((a, b) => {
@@ -118,24 +121,36 @@ export default function ReportPage() {
 
     return filtered;
 
-  }, [records, dateRange, machineFilter, shiftFilter, sortConfig]);
+  }, [records, dateRange, machineFilter, shiftFilter, qualityFilter, qualityMap, sortConfig]);
 
   const groupedRecords = useMemo(() => {
-    const groups: { [date: string]: CalculatedLoomRecord[] } = {};
-    filteredRecords.forEach(record => {
-      const date = record.date;
-      if (!groups[date]) {
-        groups[date] = [];
-      }
-      groups[date].push(record);
-    });
-    return Object.entries(groups).sort(([dateA], [dateB]) => new Date(dateA).getTime() - new Date(dateB).getTime());
-  }, [filteredRecords]);
+    if (groupBy === 'quality') {
+      return groupRecords(filteredRecords, ['quality'])
+        .map(group => ({ key: group.key, title: getQualityName(qualityMap, group.values.quality || undefined), records: group.records }))
+        .sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+    }
+    return groupRecords(filteredRecords, ['date'])
+      .map(group => ({ key: group.key, title: format(parseISO(group.values.date!), 'EEEE, dd MMMM yyyy'), records: group.records }));
+  }, [filteredRecords, groupBy, qualityMap]);
+
+  const operatorMap = useMemo(() => getOperatorMap(operators), [operators]);
+  const operatorSummary = useMemo(() => summarizeByOperator(filteredRecords, operatorMap), [filteredRecords, operatorMap]);
 
-  const machineOptions = ['all', ...Array.from({ length: settings.totalMachines || 0 }, (_, i) => (i + 1).toString())];
+  const lossReasons = useMemo(() => {
+    const from = dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : null;
+    const to = dateRange?.to ? format(dateRange.to, 'yyyy-MM-dd') : null;
+    const matching = downtimeEvents.filter(e =>
+      (!from || e.date >= from) && (!to || e.date <= to) &&
+      (machineFilter === 'all' || e.machineNo === machineFilter) &&
+      (shiftFilter === 'all' || e.shift === shiftFilter)
+    );
+    return summarizeLossReasons(matching, filteredRecords);
+  }, [downtimeEvents, dateRange, machineFilter, shiftFilter, filteredRecords]);
 
-  const grandTotalWeft = useMemo(() => filteredRecords.reduce((sum, r) => sum + r.weftMeter, 0), [filteredRecords]);
-  const grandTotalLossPrd = useMemo(() => filteredRecords.reduce((sum, r) => sum + r.lossPrd, 0), [filteredRecords]);
+  const machineOptions = useMemo(() => sortMachines(machines), [machines]);
+  const qualityOptions = useMemo(() => sortQualities(qualities), [qualities]);
+
+  const grandTotals = useMemo(() => aggregateRecords(filteredRecords), [filteredRecords]);
 
   const requestSort = (key: SortKey) => {
     let direction: SortDirection = 'asc';
@@ -152,6 +167,7 @@ export default function ReportPage() {
       { key: 'machineNo', label: 'M/C', className: 'text-purple-600' },
       { key: 'stops', label: 'Stops', className: 'text-orange-600' },
       { key: 'weftMeter', label: 'Weft', className: 'text-teal-600' },
+      { key: 'expectedPrd', label: 'ExpPrd', className: 'text-blue-600' },
       { key: 'efficiency', label: 'Eff(%)', className: 'text-green-600' },
       { key: 'total', label: 'Total', className: 'text-gray-700' },
       { key: 'run', label: 'Run', className: 'text-gray-700' },
@@ -162,16 +178,24 @@ export default function ReportPage() {
   const cellPadding = "p-[2px]";
 
 
-  const renderTableForShift = (data: CalculatedLoomRecord[], shift: 'Day' | 'Night') => {
+  const shiftCodes = useMemo(() => getShiftCodesInUse(settings.shifts, filteredRecords), [settings.shifts, filteredRecords]);
+
+  const reportPeriod = `${dateRange?.from ? format(dateRange.from, 'dd/MM/yyyy') : ''} - ${dateRange?.to ? format(dateRange.to, 'dd/MM/yyyy') : ''}`;
+  const filterSummary = [
+    machineFilter !== 'all' && `Machine: ${machineFilter}`,
+    shiftFilter !== 'all' && `Shift: ${getShiftName(settings.shifts, shiftFilter)}`,
+    qualityFilter !== 'all' && `Quality: ${getQualityName(qualityMap, qualityFilter === 'none' ? undefined : qualityFilter)}`,
+  ].filter(Boolean).join(' ');
+
+  const renderTableForShift = (data: CalculatedLoomRecord[], shift: string) => {
     const shiftData = data.filter(r => r.shift === shift);
     if(shiftData.length === 0) return null;
 
-    const totalWeft = shiftData.reduce((sum, r) => sum + r.weftMeter, 0);
-    const totalLossPrd = shiftData.reduce((sum, r) => sum + r.lossPrd, 0);
+    const { weftMeter: totalWeft, expectedPrd: totalExpectedPrd, lossPrd: totalLossPrd } = aggregateRecords(shiftData);
     
     return (
         <div className="w-full print-card">
-            <h4 className="font-semibold text-center text-sm mb-1 text-primary">{shift} Shift</h4>
+            <h4 className="font-semibold text-center text-sm mb-1 text-primary">{getShiftName(settings.shifts, shift)} Shift</h4>
             <Table className="text-[10px] font-bold print-table">
                 <TableHeader>
                      <TableRow className='no-print'>
@@ -194,9 +218,10 @@ export default function ReportPage() {
                         <TableRow key={r.id}>
                             <TableCell className={cn(cellPadding, 'text-gray-700')}>{format(parseISO(r.date), 'dd/MM')}</TableCell>
                             <TableCell className={cn(cellPadding, 'text-gray-700')}>{r.time.substring(0,5)}</TableCell>
-                            <TableCell className={cn(cellPadding, 'text-purple-600')}>{r.machineNo}</TableCell>
-                            <TableCell className={cn(cellPadding, 'text-orange-600')}>{r.stops}</TableCell>
+                            <TableCell className={cn(cellPadding, 'text-purple-600')}><Link href={getMachineHref(r.machineNo)} className="hover:underline">{r.machineNo}</Link></TableCell>
+                            <TableCell className={cn(cellPadding, 'text-orange-600')} title={formatStopBreakdown(r.stopBreakdown)}>{r.stops}</TableCell>
                             <TableCell className={cn(cellPadding, 'text-teal-600')}>{r.weftMeter.toFixed(1)}</TableCell>
+                            <TableCell className={cn(cellPadding, 'text-blue-600')}>{r.expectedPrd > 0 ? r.expectedPrd.toFixed(1) : '-'}</TableCell>
                             <TableCell className={cn(cellPadding, 'text-green-600')}>{r.efficiency.toFixed(2)}</TableCell>
                             <TableCell className={cn(cellPadding, 'text-gray-700')}>{r.total}</TableCell>
                             <TableCell className={cn(cellPadding, 'text-gray-700')}>{r.run}</TableCell>
@@ -209,6 +234,7 @@ export default function ReportPage() {
                     <TableRow className="font-bold bg-primary/10 text-primary">
                         <TableCell colSpan={4} className={cellPadding}>Total</TableCell>
                         <TableCell className={cellPadding}>{totalWeft.toFixed(2)}</TableCell>
+                        <TableCell className={cellPadding}>{totalExpectedPrd > 0 ? totalExpectedPrd.toFixed(2) : ''}</TableCell>
                         <TableCell colSpan={4}></TableCell>
                         <TableCell className={cellPadding}>{totalLossPrd.toFixed(2)}</TableCell>
                     </TableRow>
@@ -239,17 +265,44 @@ export default function ReportPage() {
             <Select value={machineFilter} onValueChange={setMachineFilter}>
               <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
               <SelectContent>
-                {machineOptions.map(opt => <SelectItem key={opt} value={opt}>{opt === 'all' ? 'All Machines' : `Machine ${opt}`}</SelectItem>)}
+                <SelectItem value="all">All Machines</SelectItem>
+                {machineOptions.map(machine => (
+                  <SelectItem key={machine.id} value={machine.machineNo}>
+                    Machine {getMachineLabel(machine)}{!machine.active && ' - Retired'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Select value={shiftFilter} onValueChange={setShiftFilter}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Shifts</SelectItem>
+                {settings.shifts.map(s => <SelectItem key={s.code} value={s.code}>{s.name}</SelectItem>)}
               </SelectContent>
             </Select>
           </div>
           <div>
-            <Select value={shiftFilter} onValueChange={(val: 'all'|'Day'|'Night') => setShiftFilter(val)}>
+            <Select value={qualityFilter} onValueChange={setQualityFilter}>
               <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">Both Shifts</SelectItem>
-                <SelectItem value="Day">Day</SelectItem>
-                <SelectItem value="Night">Night</SelectItem>
+                <SelectItem value="all">All Qualities</SelectItem>
+                <SelectItem value="none">No Quality</SelectItem>
+                {qualityOptions.map(quality => (
+                  <SelectItem key={quality.id} value={quality.id}>
+                    {quality.name}{!quality.active && ' - Inactive'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Select value={groupBy} onValueChange={(value) => setGroupBy(value as 'date' | 'quality')}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">Group by Date</SelectItem>
+                <SelectItem value="quality">Group by Quality</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -259,10 +312,21 @@ export default function ReportPage() {
               {isGenerating ? 'Generating...' : 'Download PDF'}
             </Button>
           </div>
+          <div>
+            <Button onClick={handleDownloadXlsx} variant="outline" className="w-full h-9" disabled={isExportingXlsx || filteredRecords.length === 0}>
+              {isExportingXlsx ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSpreadsheet className="mr-2 h-4 w-4" />}
+              {isExportingXlsx ? 'Exporting...' : 'Download Excel'}
+            </Button>
+          </div>
+          <div>
+            <Button asChild variant="outline" className="w-full h-9">
+              <Link href="/report/matrix"><Grid3x3 className="mr-2 h-4 w-4" /> Month Matrix</Link>
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
-      <div ref={componentRef} className="print-container">
+      <div className="print-container">
         <Card className="m-0 p-0">
           <CardHeader className='p-1'>
             <CardTitle className="text-center text-lg font-bold text-primary">Laxmi Shree Efficiency Report</CardTitle>
@@ -270,30 +334,95 @@ export default function ReportPage() {
               {dateRange?.from && format(dateRange.from, 'dd/MM/yyyy')} - {dateRange?.to && format(dateRange.to, 'dd/MM/yyyy')}
             </p>
              <div className="text-center text-xs text-muted-foreground">
-              {machineFilter !== 'all' && `Machine: ${machineFilter}`} {shiftFilter !== 'all' && `Shift: ${shiftFilter}`}
+              {filterSummary}
              </div>
           </CardHeader>
           <CardContent className='p-0'>
              <div className="space-y-4">
-              {groupedRecords.map(([date, dateRecords]) => (
-                <div key={date} className="mb-2">
-                  <h3 className="text-md text-center font-bold p-1 bg-muted rounded-sm">{format(parseISO(date), 'EEEE, dd MMMM yyyy')}</h3>
+              {groupedRecords.map(group => (
+                <div key={group.key} className="mb-2">
+                  <h3 className="text-md text-center font-bold p-1 bg-muted rounded-sm">{group.title}</h3>
                   <div className="flex flex-col print-shifts-container">
-                      {renderTableForShift(dateRecords, 'Day')}
-                      {renderTableForShift(dateRecords, 'Night')}
+                      {shiftCodes.map(code => (
+                        <React.Fragment key={code}>{renderTableForShift(group.records, code)}</React.Fragment>
+                      ))}
                   </div>
                 </div>
               ))}
             </div>
              {groupedRecords.length === 0 && <p className="text-center text-muted-foreground py-10">No records found for the selected filters.</p>}
+             {filteredRecords.length > 0 && (
+              <div className="w-full mt-2">
+                <h3 className="text-md text-center font-bold p-1 bg-muted rounded-sm">
+                  Stop Categories{machineFilter !== 'all' && ` - Machine ${machineFilter}`}
+                </h3>
+                <StopParetoChart records={filteredRecords} />
+              </div>
+             )}
+             {lossReasons.length > 0 && (
+              <div className="w-full mt-2">
+                <h3 className="text-md text-center font-bold p-1 bg-muted rounded-sm">Loss Reasons</h3>
+                <Table className="text-[10px] font-bold print-table">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Reason</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Events</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Hours</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Lost m</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lossReasons.map(l => (
+                      <TableRow key={l.reason}>
+                        <TableCell className={cn(cellPadding, 'text-gray-700')}>{l.label}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-gray-700')}>{l.events}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-pink-600')}>{l.hours.toFixed(2)}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-red-700')}>{l.lostMeters.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+             )}
+             {operators.length > 0 && operatorSummary.length > 0 && (
+              <div className="w-full mt-2">
+                <h3 className="text-md text-center font-bold p-1 bg-muted rounded-sm">Operator-wise Summary</h3>
+                <Table className="text-[10px] font-bold print-table">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Operator</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>M/C</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Shifts</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Eff(%)</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Weft</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Stops</TableHead>
+                      <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>LossPrd</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {operatorSummary.map(o => (
+                      <TableRow key={o.operatorId}>
+                        <TableCell className={cn(cellPadding, 'text-gray-700')}>{o.name}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-purple-600')}>{o.machines.join(', ')}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-gray-700')}>{o.recordCount}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-green-600')}>{o.efficiency.toFixed(2)}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-teal-600')}>{o.weftMeter.toFixed(1)}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-orange-600')}>{o.stops}</TableCell>
+                        <TableCell className={cn(cellPadding, 'text-red-700')}>{o.lossPrd.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+             )}
           </CardContent>
           {filteredRecords.length > 0 && (
             <CardFooter className="flex justify-end flex-wrap gap-2 p-1">
                 <div className="text-sm font-bold text-primary p-1 rounded-md bg-primary/10">
-                    Grand Total Loss Prd: {grandTotalLossPrd.toFixed(2)}
+                    Grand Total Loss Prd: {grandTotals.lossPrd.toFixed(2)}
                 </div>
                 <div className="text-sm font-bold text-primary p-1 rounded-md bg-primary/10">
-                    Grand Total Weft Meter: {grandTotalWeft.toFixed(2)}
+                    Grand Total Weft Meter: {grandTotals.weftMeter.toFixed(2)}
                 </div>
             </CardFooter>
           )}
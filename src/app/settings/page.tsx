@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAppState } from '@/hooks/use-app-state';
@@ -9,24 +9,52 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
 import type { AppSettings } from '@/lib/types';
-import { Save, Trash2, AlertTriangle } from 'lucide-react';
+import { MachineRegistry } from '@/components/MachineRegistry';
+import { ShiftMigration } from '@/components/ShiftMigration';
+import { QualityCatalogue } from '@/components/QualityCatalogue';
+import { OperatorRegistry } from '@/components/OperatorRegistry';
+import { OperatorRoster } from '@/components/OperatorRoster';
+import { StorageUsage } from '@/components/StorageUsage';
+import { BackupRestore } from '@/components/BackupRestore';
+import { Save, Trash2, AlertTriangle, PlusCircle } from 'lucide-react';
+
+const shiftSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required.'),
+  name: z.string().trim().min(1, 'Name is required.'),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'HH:MM'),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'HH:MM'),
+  scannerLetter: z.string().trim().max(1, 'One letter.'),
+});
 
 const settingsSchema = z.object({
-  totalMachines: z.coerce.number().int().min(1),
+  totalMachines: z.coerce.number().int().min(0),
   lowEfficiencyThreshold: z.coerce.number().min(0).max(100),
   geminiApiKey: z.string().optional(),
   whatsAppNumber: z.string().optional(),
   messageTemplate: z.string().optional(),
   supabaseUrl: z.string().url({ message: "Please enter a valid Supabase URL." }).optional().or(z.literal('')),
   supabaseKey: z.string().optional(),
+  syncBackend: z.enum(['supabase', 'server']),
+  syncToken: z.string().optional(),
+  shifts: z.array(shiftSchema).min(1, 'At least one shift is required.')
+    .refine(shifts => new Set(shifts.map(s => s.code)).size === shifts.length, 'Shift codes must be unique.'),
+  readingMode: z.enum(['shift', 'cumulative']),
+  payroll: z.object({
+    defaultRatePerMeter: z.coerce.number().min(0),
+    bonusSlabs: z.array(z.object({
+      minEfficiency: z.coerce.number().min(0).max(100),
+      amount: z.coerce.number().min(0),
+    })),
+  }),
 });
 
 export default function SettingsPage() {
-  const { settings, updateSettings, deleteAllData, isInitialized } = useAppState();
+  const { settings, updateSettings, deleteAllData, remapRecordShift, isInitialized } = useAppState();
   const [password, setPassword] = useState('');
 
   const form = useForm<AppSettings>({
@@ -34,6 +62,11 @@ export default function SettingsPage() {
     values: settings,
   });
 
+  const syncBackend = form.watch('syncBackend');
+
+  const { fields: shiftFields, append: appendShift, remove: removeShift } = useFieldArray({ control: form.control, name: 'shifts' });
+  const { fields: slabFields, append: appendSlab, remove: removeSlab } = useFieldArray({ control: form.control, name: 'payroll.bonusSlabs' });
+
   React.useEffect(() => {
     if (isInitialized) {
       form.reset(settings);
@@ -41,8 +74,24 @@ export default function SettingsPage() {
   }, [isInitialized, settings, form]);
 
   const onSubmit = (data: AppSettings) => {
+    // A shift whose code was edited in place keeps its records
+    const newCodes = data.shifts.map(s => s.code);
+    let skipped = 0;
+    settings.shifts.forEach((oldShift, index) => {
+      const renamedTo = data.shifts[index]?.code;
+      if (renamedTo && renamedTo !== oldShift.code && !newCodes.includes(oldShift.code)) {
+        skipped += remapRecordShift(oldShift.code, renamedTo).skipped;
+      }
+    });
     updateSettings(data);
     toast({ title: 'Settings Saved', description: 'Your new settings have been applied.' });
+    if (skipped > 0) {
+      toast({
+        title: 'Some Records Not Moved',
+        description: `${skipped} records kept their old shift code because their machine already has a record for that date on the new one. They are listed under Migrate Records.`,
+        variant: 'destructive',
+      });
+    }
   };
   
   const handleDeleteAllData = () => {
@@ -64,12 +113,47 @@ CREATE TABLE IF NOT EXISTS public.loom_records (
   shift TEXT NOT NULL,
   machine_no TEXT NOT NULL,
   stops INT NOT NULL,
+  stop_breakdown JSONB,
   weft_meter FLOAT NOT NULL,
   total TEXT NOT NULL,
   run TEXT NOT NULL,
+  quality_id TEXT,
+  operator_id TEXT,
+  counter_reading JSONB,
+  version INT NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+-- Add columns introduced after the table was first created
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS quality_id TEXT;
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS operator_id TEXT;
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS stop_breakdown JSONB;
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS counter_reading JSONB;
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS version INT NOT NULL DEFAULT 1;
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+-- Existing rows are stamped with the time the column is added
+ALTER TABLE public.loom_records ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- synced_at is the server's clock at every write, so devices that push late are still picked up.
+-- updated_at stays the device's edit time, which decides conflicts.
+CREATE OR REPLACE FUNCTION public.set_synced_at() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.synced_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS loom_records_set_synced_at ON public.loom_records;
+CREATE TRIGGER loom_records_set_synced_at BEFORE INSERT OR UPDATE ON public.loom_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_synced_at();
+
+-- Devices fetch only records written since their last sync
+CREATE INDEX IF NOT EXISTS loom_records_synced_at_idx ON public.loom_records (synced_at);
+
 -- Enable Row Level Security
 ALTER TABLE public.loom_records ENABLE ROW LEVEL SECURITY;
 
@@ -83,6 +167,160 @@ CREATE PUBLICATION supabase_realtime;
 ALTER PUBLICATION supabase_realtime ADD TABLE public.loom_records;
   `.trim();
 
+  const supabaseMachinesScript = `
+-- Create machines table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.machines (
+  id TEXT PRIMARY KEY,
+  machine_no TEXT NOT NULL UNIQUE,
+  shed TEXT NOT NULL DEFAULT '',
+  make_model TEXT NOT NULL DEFAULT '',
+  reed_width FLOAT NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  commissioned_on DATE,
+  quality_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add columns introduced after the table was first created
+ALTER TABLE public.machines ADD COLUMN IF NOT EXISTS quality_id TEXT;
+
+-- Enable Row Level Security
+ALTER TABLE public.machines ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access to machines
+DROP POLICY IF EXISTS "public_access_policy" ON public.machines;
+CREATE POLICY "public_access_policy" ON public.machines FOR ALL USING (true) WITH CHECK (true);
+
+-- Add table to publication for realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.machines;
+  `.trim();
+
+  const supabaseQualitiesScript = `
+-- Create qualities table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.qualities (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  picks_per_inch FLOAT NOT NULL DEFAULT 0,
+  reed FLOAT NOT NULL DEFAULT 0,
+  width FLOAT NOT NULL DEFAULT 0,
+  expected_rpm FLOAT NOT NULL DEFAULT 0,
+  target_efficiency FLOAT NOT NULL DEFAULT 0,
+  wage_rate FLOAT NOT NULL DEFAULT 0,
+  wage_basis TEXT NOT NULL DEFAULT 'meter',
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add columns introduced after the table was first created
+ALTER TABLE public.qualities ADD COLUMN IF NOT EXISTS wage_rate FLOAT NOT NULL DEFAULT 0;
+ALTER TABLE public.qualities ADD COLUMN IF NOT EXISTS wage_basis TEXT NOT NULL DEFAULT 'meter';
+
+-- Enable Row Level Security
+ALTER TABLE public.qualities ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access to qualities
+DROP POLICY IF EXISTS "public_access_policy" ON public.qualities;
+CREATE POLICY "public_access_policy" ON public.qualities FOR ALL USING (true) WITH CHECK (true);
+
+-- Add table to publication for realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.qualities;
+  `.trim();
+
+  const supabaseOperatorsScript = `
+-- Create operator, shift roster and wage deduction tables if they don't exist
+CREATE TABLE IF NOT EXISTS public.operators (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL DEFAULT '',
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.operator_assignments (
+  id TEXT PRIMARY KEY,
+  shift TEXT NOT NULL,
+  machine_no TEXT NOT NULL,
+  operator_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.wage_deductions (
+  id TEXT PRIMARY KEY,
+  operator_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  amount FLOAT NOT NULL,
+  reason TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.operators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.operator_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wage_deductions ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access to operators and the roster
+DROP POLICY IF EXISTS "public_access_policy" ON public.operators;
+CREATE POLICY "public_access_policy" ON public.operators FOR ALL USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "public_access_policy" ON public.operator_assignments;
+CREATE POLICY "public_access_policy" ON public.operator_assignments FOR ALL USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "public_access_policy" ON public.wage_deductions;
+CREATE POLICY "public_access_policy" ON public.wage_deductions FOR ALL USING (true) WITH CHECK (true);
+
+-- Add tables to publication for realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.operators;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.operator_assignments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.wage_deductions;
+  `.trim();
+
+  const supabaseDowntimeScript = `
+-- Create downtime events table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.downtime_events (
+  id TEXT PRIMARY KEY,
+  date DATE NOT NULL,
+  shift TEXT NOT NULL,
+  machine_no TEXT NOT NULL,
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  note TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.downtime_events ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access to downtime events
+DROP POLICY IF EXISTS "public_access_policy" ON public.downtime_events;
+CREATE POLICY "public_access_policy" ON public.downtime_events FOR ALL USING (true) WITH CHECK (true);
+
+-- Add table to publication for realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.downtime_events;
+  `.trim();
+
+  const supabaseBeamsScript = `
+-- Create beams table if it doesn't exist
+CREATE TABLE IF NOT EXISTS public.beams (
+  id TEXT PRIMARY KEY,
+  beam_no TEXT NOT NULL,
+  machine_no TEXT NOT NULL,
+  quality_id TEXT,
+  length FLOAT NOT NULL,
+  gaiting_date DATE NOT NULL,
+  finished_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.beams ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access to beams
+DROP POLICY IF EXISTS "public_access_policy" ON public.beams;
+CREATE POLICY "public_access_policy" ON public.beams FOR ALL USING (true) WITH CHECK (true);
+
+-- Add table to publication for realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.beams;
+  `.trim();
+
   const supabaseSettingsScript = `
 -- Create settings table if it doesn't exist
 CREATE TABLE IF NOT EXISTS public.settings (
@@ -90,9 +328,17 @@ CREATE TABLE IF NOT EXISTS public.settings (
   total_machines INT NOT NULL DEFAULT 10,
   low_efficiency_threshold INT NOT NULL DEFAULT 90,
   whatsapp_number TEXT DEFAULT '',
-  message_template TEXT DEFAULT 'Record Details:\nDate: {{date}}\nTime: {{time}}\nShift: {{shift}}\nMachine: {{machineNo}}\nEfficiency: {{efficiency}}%'
+  message_template TEXT DEFAULT 'Record Details:\nDate: {{date}}\nTime: {{time}}\nShift: {{shift}}\nMachine: {{machineNo}}\nEfficiency: {{efficiency}}%',
+  shifts JSONB,
+  reading_mode TEXT DEFAULT 'shift',
+  payroll JSONB
 );
 
+-- Add columns introduced after the table was first created
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS shifts JSONB;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS reading_mode TEXT DEFAULT 'shift';
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS payroll JSONB;
+
 -- Enable Row Level Security
 ALTER TABLE public.settings ENABLE ROW LEVEL SECURITY;
 
@@ -126,23 +372,130 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
           <Card className='border-0 shadow-none'>
             <CardHeader className='p-2'><CardTitle className="text-primary text-lg">General Settings</CardTitle></CardHeader>
             <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-2 p-2">
-              <FormField control={form.control} name="totalMachines" render={({ field }) => (
+              <FormField control={form.control} name="lowEfficiencyThreshold" render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-xs">Total Machines</FormLabel>
+                  <FormLabel className="text-xs">Low Efficiency Threshold (%)</FormLabel>
                   <FormControl><Input type="number" {...field} className="h-8" /></FormControl>
                   <FormMessage />
                 </FormItem>
               )} />
-              <FormField control={form.control} name="lowEfficiencyThreshold" render={({ field }) => (
+              <FormField control={form.control} name="readingMode" render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-xs">Low Efficiency Threshold (%)</FormLabel>
-                  <FormControl><Input type="number" {...field} className="h-8" /></FormControl>
+                  <FormLabel className="text-xs">Loom Display Readings</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-8"><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value="shift">Reset every shift</SelectItem>
+                      <SelectItem value="cumulative">Cumulative counters</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="text-[10px]">With cumulative counters, shift values are worked out from the machine's previous reading.</FormDescription>
                   <FormMessage />
                 </FormItem>
               )} />
             </CardContent>
           </Card>
           
+          <Card className='border-0 shadow-none'>
+            <CardHeader className='p-2 flex flex-row items-center justify-between'>
+              <div>
+                <CardTitle className="text-primary text-lg">Shifts</CardTitle>
+                <CardDescription className='text-xs'>The scanner letter is the shift letter shown on the loom display.</CardDescription>
+              </div>
+              <Button type="button" size="sm" variant="outline" onClick={() => appendShift({ code: '', name: '', startTime: '00:00', endTime: '00:00', scannerLetter: '' })}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2 p-2">
+              {shiftFields.map((shiftField, index) => (
+                <div key={shiftField.id} className="grid grid-cols-6 gap-1 items-end">
+                  <FormField control={form.control} name={`shifts.${index}.code`} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px]">Code</FormLabel>
+                      <FormControl><Input {...field} className="h-8 px-1" /></FormControl>
+                      <FormMessage className="text-[10px]" />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name={`shifts.${index}.name`} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px]">Name</FormLabel>
+                      <FormControl><Input {...field} className="h-8 px-1" /></FormControl>
+                      <FormMessage className="text-[10px]" />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name={`shifts.${index}.startTime`} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px]">Start</FormLabel>
+                      <FormControl><Input type="time" {...field} className="h-8 px-1" /></FormControl>
+                      <FormMessage className="text-[10px]" />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name={`shifts.${index}.endTime`} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px]">End</FormLabel>
+                      <FormControl><Input type="time" {...field} className="h-8 px-1" /></FormControl>
+                      <FormMessage className="text-[10px]" />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name={`shifts.${index}.scannerLetter`} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px]">Letter</FormLabel>
+                      <FormControl><Input {...field} maxLength={1} className="h-8 px-1" /></FormControl>
+                      <FormMessage className="text-[10px]" />
+                    </FormItem>
+                  )} />
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeShift(index)} disabled={shiftFields.length === 1}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              {form.formState.errors.shifts?.root?.message && <p className="text-xs text-destructive">{form.formState.errors.shifts.root.message}</p>}
+              {form.formState.errors.shifts?.message && <p className="text-xs text-destructive">{form.formState.errors.shifts.message}</p>}
+            </CardContent>
+          </Card>
+
+          <Card className='border-0 shadow-none'>
+            <CardHeader className='p-2 flex flex-row items-center justify-between'>
+              <div>
+                <CardTitle className="text-primary text-lg">Payroll</CardTitle>
+                <CardDescription className='text-xs'>Qualities set their own weaver rate; the default applies to the rest. Each shift earns the highest bonus slab its efficiency reaches.</CardDescription>
+              </div>
+              <Button type="button" size="sm" variant="outline" onClick={() => appendSlab({ minEfficiency: 90, amount: 0 })}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Slab
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2 p-2">
+              <FormField control={form.control} name="payroll.defaultRatePerMeter" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Default Rate per Meter</FormLabel>
+                  <FormControl><Input type="number" step="0.01" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {slabFields.map((slabField, index) => (
+                <div key={slabField.id} className="grid grid-cols-3 gap-1 items-end">
+                  <FormField control={form.control} name={`payroll.bonusSlabs.${index}.minEfficiency`} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px]">Min Eff (%)</FormLabel>
+                      <FormControl><Input type="number" {...field} className="h-8 px-1" /></FormControl>
+                      <FormMessage className="text-[10px]" />
+                    </FormItem>
+                  )} />
+                  <FormField control={form.control} name={`payroll.bonusSlabs.${index}.amount`} render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px]">Bonus / Shift</FormLabel>
+                      <FormControl><Input type="number" step="0.01" {...field} className="h-8 px-1" /></FormControl>
+                      <FormMessage className="text-[10px]" />
+                    </FormItem>
+                  )} />
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeSlab(index)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
           <Card className='border-0 shadow-none'>
             <CardHeader className='p-2'><CardTitle className="text-primary text-lg">WhatsApp Settings</CardTitle></CardHeader>
             <CardContent className="space-y-2 p-2">
@@ -166,9 +519,35 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
           <Card className='border-0 shadow-none'>
             <CardHeader className='p-2'>
               <CardTitle className="text-primary text-lg">Backend & Sync Settings</CardTitle>
-              <CardDescription className='text-xs'>Enter your Supabase credentials to enable cloud sync. The Gemini key is used for AI features and should be set as a server secret in your hosting environment.</CardDescription>
+              <CardDescription className='text-xs'>Sync through a Supabase project, or through the server this app runs on, which keeps the data in a SQLite file. The Gemini key is used for AI features and should be set as a server secret in your hosting environment.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-2 p-2">
+              <FormField control={form.control} name="syncBackend" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Sync Backend</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-8"><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value="supabase">Supabase</SelectItem>
+                      <SelectItem value="server">This app's server (SQLite)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="text-[10px]">Every device on the factory network should open the app from the same server. Set SQLITE_PATH on the server to choose where the database file is kept.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {syncBackend === 'server' && (
+              <FormField control={form.control} name="syncToken" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Sync Token</FormLabel>
+                  <FormControl><Input type="password" {...field} value={field.value ?? ''} className="h-8" /></FormControl>
+                  <FormDescription className="text-[10px]">The server refuses sync requests until SYNC_TOKEN is set in its environment. Enter the same token on every device.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              )}
+              {syncBackend === 'supabase' && (
+              <>
                <FormField control={form.control} name="supabaseUrl" render={({ field }) => (
                 <FormItem>
                   <FormLabel className="text-xs">Supabase URL</FormLabel>
@@ -183,6 +562,8 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
                   <FormMessage />
                 </FormItem>
               )} />
+              </>
+              )}
                <FormField control={form.control} name="geminiApiKey" render={({ field }) => (
                 <FormItem>
                   <FormLabel className="text-xs">Gemini API Key (Server Secret)</FormLabel>
@@ -190,6 +571,8 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
                   <FormMessage />
                 </FormItem>
               )} />
+              {syncBackend === 'supabase' && (
+              <>
               <div>
                 <h4 className='font-medium text-sm mb-1'>Supabase Setup Scripts</h4>
                 <p className='text-xs text-muted-foreground mb-2'>Run these scripts in your Supabase SQL editor to set up the necessary tables and policies for data storage and real-time sync.</p>
@@ -200,6 +583,28 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
                 <FormLabel className="text-xs">2. Settings Table</FormLabel>
                 <Textarea readOnly value={supabaseSettingsScript} className="font-mono text-xs mt-1" rows={8} />
               </div>
+               <div>
+                <FormLabel className="text-xs">3. Machines Table</FormLabel>
+                <Textarea readOnly value={supabaseMachinesScript} className="font-mono text-xs mt-1" rows={8} />
+              </div>
+               <div>
+                <FormLabel className="text-xs">4. Qualities Table</FormLabel>
+                <Textarea readOnly value={supabaseQualitiesScript} className="font-mono text-xs mt-1" rows={8} />
+              </div>
+               <div>
+                <FormLabel className="text-xs">5. Operators, Roster & Payroll Tables</FormLabel>
+                <Textarea readOnly value={supabaseOperatorsScript} className="font-mono text-xs mt-1" rows={8} />
+              </div>
+               <div>
+                <FormLabel className="text-xs">6. Downtime Table</FormLabel>
+                <Textarea readOnly value={supabaseDowntimeScript} className="font-mono text-xs mt-1" rows={8} />
+              </div>
+               <div>
+                <FormLabel className="text-xs">7. Beams Table</FormLabel>
+                <Textarea readOnly value={supabaseBeamsScript} className="font-mono text-xs mt-1" rows={8} />
+              </div>
+              </>
+              )}
             </CardContent>
           </Card>
 
@@ -208,6 +613,20 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
           </Button>
         </form>
       </Form>
+
+      <ShiftMigration />
+
+      <MachineRegistry />
+
+      <QualityCatalogue />
+
+      <OperatorRegistry />
+
+      <OperatorRoster />
+
+      <StorageUsage />
+
+      <BackupRestore />
       
       <Card className="mt-2 border-destructive">
           <CardHeader className='p-2'>
@@ -0,0 +1,166 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { describeOperation, getOperationId, isRetryDue } from '@/lib/sync-queue';
+import { downloadJson } from '@/lib/download';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, CheckCircle2, Download, RefreshCw, Trash2 } from 'lucide-react';
+
+const STATUS_LABELS = {
+  connected: 'Connected',
+  reconnecting: 'Connecting',
+  disconnected: 'Disconnected',
+};
+
+export default function SyncPage() {
+  const router = useRouter();
+  const { pendingSync, syncAttempts, syncStatus, settings, retrySync, discardPendingOperation } = useAppState();
+
+  const backendLabel = settings.syncBackend === 'server'
+    ? settings.syncToken ? "This app's server" : 'Not configured'
+    : settings.supabaseUrl ? 'Supabase' : 'Not configured';
+
+  const handleExport = () => {
+    downloadJson(
+      { exportedAt: new Date().toISOString(), pendingSync, syncAttempts },
+      `Laxmi_Shree_Sync_Queue_${format(new Date(), 'yyyy-MM-dd_HHmm')}.json`
+    );
+  };
+
+  const handleRetryAll = () => {
+    retrySync();
+    toast({ title: 'Retrying Sync', description: `${pendingSync.length} pending changes will be pushed again.` });
+  };
+
+  const handleDiscard = (id: string) => {
+    discardPendingOperation(id);
+    toast({ title: 'Change Discarded', description: 'It will not be pushed to the cloud.' });
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <div className="space-y-2 p-1">
+      <Card className="m-0 shadow-lg border-0">
+        <CardHeader className="flex flex-row items-center gap-2 p-2">
+          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+              <ArrowLeft />
+          </Button>
+          <div>
+            <CardTitle className='text-primary text-xl'>Sync Status</CardTitle>
+            <CardDescription className='text-xs'>Changes waiting to reach the cloud. Failed pushes are retried with growing delays.</CardDescription>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card className="m-0 shadow-lg border-0">
+        <CardContent className="p-2 space-y-2">
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div>
+              <p className="text-muted-foreground">Backend</p>
+              <p className="font-bold">{backendLabel}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Status</p>
+              <p className={cn('font-bold', syncStatus === 'connected' ? 'text-green-600' : syncStatus === 'disconnected' ? 'text-red-700' : 'text-orange-600')}>
+                {STATUS_LABELS[syncStatus]}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Pending</p>
+              <p className="font-bold">{pendingSync.length}</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" variant="outline" onClick={handleRetryAll} disabled={pendingSync.length === 0}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Retry All Now
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={pendingSync.length === 0}>
+              <Download className="mr-2 h-4 w-4" /> Export Queue
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {pendingSync.length > 0 && (
+        <Card className="m-0 shadow-lg border-0">
+          <CardContent className="p-0">
+            <Table className="text-[10px] font-bold">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Change</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Tries</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold text-red-700')}>Last Error</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>Next Try</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingSync.map(op => {
+                  const id = getOperationId(op);
+                  const attempt = syncAttempts[id];
+                  const { action, target } = describeOperation(op);
+                  return (
+                    <TableRow key={id}>
+                      <TableCell className={cellPadding}>
+                        <p>{action}</p>
+                        <p className="text-muted-foreground font-normal">{target}</p>
+                      </TableCell>
+                      <TableCell className={cellPadding}>{attempt?.attempts ?? 0}</TableCell>
+                      <TableCell className={cn(cellPadding, 'text-red-700 font-normal break-all')}>{attempt?.lastError ?? '-'}</TableCell>
+                      <TableCell className={cellPadding}>
+                        {isRetryDue(attempt) ? <Badge variant="secondary" className="text-[9px] px-1">Due</Badge> : format(parseISO(attempt!.nextRetryAt), 'HH:mm:ss')}
+                      </TableCell>
+                      <TableCell className={cn(cellPadding, 'text-right whitespace-nowrap')}>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => retrySync(id)}>
+                          <RefreshCw className="h-3 w-3" />
+                          <span className="sr-only">Retry now</span>
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-6 w-6">
+                              <Trash2 className="h-3 w-3 text-destructive" />
+                              <span className="sr-only">Discard</span>
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Discard this change?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {action} ({target}) stays on this device but will not be pushed to the cloud. Other devices will not see it.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDiscard(id)} className="bg-destructive hover:bg-destructive/90">Discard</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {pendingSync.length === 0 && (
+        <div className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+          <CheckCircle2 className="h-8 w-8 text-green-600" />
+          <p className="text-sm">Nothing waiting. Every change has been pushed.</p>
+        </div>
+      )}
+    </div>
+  );
+}
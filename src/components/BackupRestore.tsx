@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { createBackup, parseBackup, planRecordMerge, BACKUP_COLLECTION_LABELS, type BackupCollection, type BackupFile, type RestoreMode } from '@/lib/backup';
+import { downloadJson } from '@/lib/download';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { Download, Upload } from 'lucide-react';
+
+// Exports everything on this device to a JSON file and restores such a file, merged in or replacing the current data.
+export function BackupRestore() {
+  const {
+    records, deletedRecords, settings, machines, qualities, operators, operatorAssignments,
+    wageDeductions, downtimeEvents, beams, pendingSync, restoreBackup,
+  } = useAppState();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const allRecords = useMemo(() => [...records, ...deletedRecords], [records, deletedRecords]);
+
+  const deviceCounts: Record<BackupCollection, number> = {
+    records: allRecords.length,
+    machines: machines.length,
+    qualities: qualities.length,
+    operators: operators.length,
+    operatorAssignments: operatorAssignments.length,
+    wageDeductions: wageDeductions.length,
+    downtimeEvents: downtimeEvents.length,
+    beams: beams.length,
+  };
+
+  const mergePlan = useMemo(() => backup ? planRecordMerge(allRecords, backup.records) : null, [backup, allRecords]);
+
+  const handleExport = () => {
+    const file = createBackup({
+      records: allRecords, settings, machines, qualities, operators, operatorAssignments,
+      wageDeductions, downtimeEvents, beams, pendingSync,
+    });
+    downloadJson(file, `Laxmi_Shree_Backup_${format(new Date(), 'yyyy-MM-dd_HHmm')}.json`);
+    toast({ title: 'Backup Exported', description: `${allRecords.length} records saved to the file.` });
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseBackup(await file.text());
+    if (!result.success) {
+      toast({ title: 'Invalid Backup', description: result.error, variant: 'destructive' });
+      return;
+    }
+    setBackup(result.backup);
+    setMode('merge');
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    restoreBackup(backup, mode);
+    toast({
+      title: 'Backup Restored',
+      description: mode === 'replace'
+        ? `Data replaced with the backup from ${format(parseISO(backup.exportedAt), 'dd/MM/yy HH:mm')}.`
+        : `${mergePlan?.added ?? 0} records added, ${mergePlan?.updated ?? 0} updated.`,
+    });
+    setBackup(null);
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <Card className='border-0 shadow-none'>
+      <CardHeader className='p-2'>
+        <CardTitle className="text-primary text-lg">Backup & Restore</CardTitle>
+        <CardDescription className='text-xs'>Records, settings and master data in one file. Cloud keys are left out.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 p-2">
+        <div className="grid grid-cols-2 gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" /> Export Backup
+          </Button>
+          <input type="file" accept="application/json,.json" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+          <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" /> Import Backup
+          </Button>
+        </div>
+
+        {backup && mergePlan && (
+          <div className="space-y-2 rounded-md border p-2">
+            <p className="text-xs">
+              Backup from <span className="font-bold">{format(parseISO(backup.exportedAt), 'dd/MM/yy HH:mm')}</span>
+              {backup.pendingSync.length > 0 && `, made with ${backup.pendingSync.length} changes not yet synced`}.
+            </p>
+            <Table className="text-[10px] font-bold">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}></TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>In Backup</TableHead>
+                  <TableHead className={cn(cellPadding, 'text-[10px] font-bold')}>On Device</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollection[]).map(collection => (
+                  <TableRow key={collection}>
+                    <TableCell className={cellPadding}>{BACKUP_COLLECTION_LABELS[collection]}</TableCell>
+                    <TableCell className={cellPadding}>{backup[collection].length}</TableCell>
+                    <TableCell className={cellPadding}>{deviceCounts[collection]}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Restore Mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Merge into current data</SelectItem>
+                  <SelectItem value="replace">Replace current data</SelectItem>
+                </SelectContent>
+              </Select>
+              {mode === 'merge' ? (
+                <p className="text-[10px] text-muted-foreground">
+                  {mergePlan.added} new records, {mergePlan.updated} newer than the copy here, {mergePlan.kept} unchanged
+                  {mergePlan.duplicates > 0 && `, ${mergePlan.duplicates} skipped because the shift already has a record`}. Master data from the backup replaces items with the same id.
+                </p>
+              ) : (
+                <p className="text-[10px] text-destructive">
+                  Everything not in the backup is removed on all synced devices; records go to the trash. Shared settings are restored too.
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button type="button" size="sm" variant="outline" onClick={() => setBackup(null)}>Cancel</Button>
+              {mode === 'merge' ? (
+                <Button type="button" size="sm" className="bg-accent hover:bg-accent/90" onClick={handleRestore}>Merge</Button>
+              ) : (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" size="sm" variant="destructive">Replace</Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Replace all data?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Current records, machines, qualities, operators, roster, deductions, downtime and beams will be replaced with the backup on every synced device.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleRestore} className="bg-destructive hover:bg-destructive/90">Replace</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { toast } from '@/hooks/use-toast';
+import { Camera, Loader2 } from 'lucide-react';
+
+interface CameraCaptureProps {
+  isScanning: boolean;
+  onCapture: (photoDataUri: string) => void;
+  onCancel: () => void;
+}
+
+export function CameraCapture({ isScanning, onCapture, onCancel }: CameraCaptureProps) {
+  const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const getCameraPermission = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        setHasCameraPermission(true);
+
+        if (video) {
+          video.srcObject = stream;
+        }
+      } catch (error) {
+        console.error('Error accessing camera:', error);
+        setHasCameraPermission(false);
+        toast({
+          variant: 'destructive',
+          title: 'Camera Access Denied',
+          description: 'Please enable camera permissions in your browser settings to use this app.',
+        });
+        onCancel();
+      }
+    };
+
+    getCameraPermission();
+
+    return () => {
+        if(video && video.srcObject) {
+            const stream = video.srcObject as MediaStream;
+            stream.getTracks().forEach(track => track.stop());
+        }
+    }
+  }, []);
+
+  const handleCapture = () => {
+    if (videoRef.current && canvasRef.current) {
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d');
+        if(!context) return;
+        context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+        onCapture(canvas.toDataURL('image/jpeg'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black z-50 flex flex-col items-center justify-center p-4">
+      <div className='relative w-full h-full flex items-center justify-center'>
+          <video ref={videoRef} className="w-full h-full object-contain" autoPlay muted playsInline />
+          <canvas ref={canvasRef} className="hidden" />
+          {isScanning && (
+              <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-md">
+                  <Loader2 className="h-10 w-10 animate-spin text-white" />
+              </div>
+          )}
+      </div>
+
+      {hasCameraPermission === false && (
+          <div className="absolute top-4 left-4 right-4">
+              <Alert variant="destructive">
+                <AlertTitle>Camera Access Required</AlertTitle>
+                <AlertDescription>
+                  Please allow camera access to use this feature.
+                </AlertDescription>
+              </Alert>
+          </div>
+      )}
+
+      <div className="absolute bottom-4 left-4 right-4 flex gap-4">
+        <Button onClick={handleCapture} className="w-full" disabled={isScanning || !hasCameraPermission}>
+          <Camera className="mr-2 h-4 w-4" /> Capture
+        </Button>
+        <Button onClick={onCancel} variant="outline" className="w-full bg-black/20 text-white border-white hover:bg-black/50">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
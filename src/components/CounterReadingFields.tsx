@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { format, parseISO } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { COUNTER_FIELD_LABELS, type CounterDelta } from '@/lib/counters';
+import type { RecordFormValues } from '@/lib/record-form';
+import { getShiftName } from '@/lib/shifts';
+import type { LoomRecord, ShiftDefinition } from '@/lib/types';
+
+interface CounterReadingFieldsProps {
+  form: UseFormReturn<RecordFormValues>;
+  shifts: ShiftDefinition[];
+  previousRecord?: LoomRecord;
+  delta?: CounterDelta;
+}
+
+export function CounterReadingFields({ form, shifts, previousRecord, delta }: CounterReadingFieldsProps) {
+  const formLabelStyle = "font-bold text-[9px]";
+  const previous = previousRecord?.counterReading;
+
+  return (
+    <div className="space-y-1 rounded-md border p-2">
+      <p className="font-bold text-xs text-primary">Counter Reading</p>
+      <div className="grid grid-cols-4 gap-1">
+        <FormField control={form.control} name="counterReading.weftMeter" render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>{COUNTER_FIELD_LABELS.weftMeter}</FormLabel>
+            <FormControl><Input type="number" step="0.1" {...field} className="h-9 px-1" /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="counterReading.stops" render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>{COUNTER_FIELD_LABELS.stops}</FormLabel>
+            <FormControl><Input type="number" inputMode="numeric" {...field} className="h-9 px-1" /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="counterReading.total" render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>{COUNTER_FIELD_LABELS.total}</FormLabel>
+            <FormControl><Input placeholder="HH:MM:SS" {...field} className="h-9 px-1" /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField control={form.control} name="counterReading.run" render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>{COUNTER_FIELD_LABELS.run}</FormLabel>
+            <FormControl><Input placeholder="HH:MM:SS" {...field} className="h-9 px-1" /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {previousRecord && previous
+          ? `Previous: ${format(parseISO(previousRecord.date), 'dd/MM')} ${getShiftName(shifts, previousRecord.shift)} - ${previous.weftMeter}m, ${previous.stops} stops, ${previous.total} / ${previous.run}`
+          : 'No previous reading on this machine; the counters are taken as this shift\'s values.'}
+      </p>
+      {delta?.reset && (
+        <p className="text-[11px] font-bold text-orange-600">Counter reset detected. The reading is used as this shift's values.</p>
+      )}
+      {delta && delta.negativeFields.length > 0 && (
+        <p className="text-[11px] font-bold text-destructive">
+          {delta.negativeFields.map(f => COUNTER_FIELD_LABELS[f]).join(', ')} went down since the previous reading. Check the display.
+        </p>
+      )}
+    </div>
+  );
+}
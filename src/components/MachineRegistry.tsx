@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAppState } from '@/hooks/use-app-state';
+import { sortMachines } from '@/lib/machines';
+import { getQualityMap, sortQualities } from '@/lib/qualities';
+import { cn } from '@/lib/utils';
+import type { Machine } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { PlusCircle, Edit, Trash2 } from 'lucide-react';
+
+const machineSchema = z.object({
+  machineNo: z.string().trim().min(1, 'Machine No. is required.'),
+  shed: z.string().trim(),
+  makeModel: z.string().trim(),
+  reedWidth: z.coerce.number().min(0, 'Reed width must be a positive number.'),
+  active: z.boolean(),
+  commissionedOn: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Invalid date.'),
+  qualityId: z.string(), // empty when no quality is on the loom
+});
+
+type MachineFormValues = z.infer<typeof machineSchema>;
+
+const EMPTY_MACHINE: MachineFormValues = {
+  machineNo: '',
+  shed: '',
+  makeModel: '',
+  reedWidth: 0,
+  active: true,
+  commissionedOn: '',
+  qualityId: '',
+};
+
+export function MachineRegistry() {
+  const { machines, records, qualities, addMachine, updateMachine, deleteMachine } = useAppState();
+  const [editingMachine, setEditingMachine] = useState<Machine | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const form = useForm<MachineFormValues>({
+    resolver: zodResolver(machineSchema),
+    defaultValues: EMPTY_MACHINE,
+  });
+
+  const sortedMachines = useMemo(() => sortMachines(machines), [machines]);
+  const machinesWithRecords = useMemo(() => new Set(records.map(r => r.machineNo)), [records]);
+  const qualityMap = useMemo(() => getQualityMap(qualities), [qualities]);
+  const qualityOptions = useMemo(() => sortQualities(qualities), [qualities]);
+
+  const openDialog = (machine: Machine | null) => {
+    setEditingMachine(machine);
+    form.reset(machine ? { ...machine, qualityId: machine.qualityId ?? '' } : EMPTY_MACHINE);
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = (formValues: MachineFormValues) => {
+    const values = { ...formValues, qualityId: formValues.qualityId || undefined };
+    const isTaken = machines.some(m => m.machineNo === values.machineNo && m.id !== editingMachine?.id);
+    if (isTaken) {
+      form.setError('machineNo', { message: `Machine ${values.machineNo} already exists.` });
+      return;
+    }
+    if (editingMachine && editingMachine.machineNo !== values.machineNo && machinesWithRecords.has(editingMachine.machineNo)) {
+      form.setError('machineNo', { message: 'Machines with records cannot be renumbered.' });
+      return;
+    }
+
+    if (editingMachine) {
+      updateMachine({ ...editingMachine, ...values });
+      toast({ title: 'Machine Updated', description: `Machine ${values.machineNo} has been updated.` });
+    } else {
+      addMachine(values);
+      toast({ title: 'Machine Added', description: `Machine ${values.machineNo} has been added.` });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <Card className='border-0 shadow-none'>
+      <CardHeader className='p-2 flex flex-row items-center justify-between'>
+        <div>
+          <CardTitle className="text-primary text-lg">Machines</CardTitle>
+          <CardDescription className='text-xs'>Retired looms stay in reports but are hidden from entry screens.</CardDescription>
+        </div>
+        <Button type="button" size="sm" onClick={() => openDialog(null)} className="bg-accent hover:bg-accent/90">
+          <PlusCircle className="mr-2 h-4 w-4" /> Add
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table className="text-[10px] font-bold">
+            <TableHeader>
+              <TableRow>
+                <TableHead className={cellPadding}>M/C</TableHead>
+                <TableHead className={cellPadding}>Shed</TableHead>
+                <TableHead className={cellPadding}>Make/Model</TableHead>
+                <TableHead className={cellPadding}>Reed</TableHead>
+                <TableHead className={cellPadding}>Quality</TableHead>
+                <TableHead className={cellPadding}>Since</TableHead>
+                <TableHead className={cellPadding}>Status</TableHead>
+                <TableHead className={cellPadding}>Act</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedMachines.map(machine => (
+                <TableRow key={machine.id} className={cn(!machine.active && 'text-muted-foreground')}>
+                  <TableCell className={cn(cellPadding, 'text-purple-600')}>{machine.machineNo}</TableCell>
+                  <TableCell className={cellPadding}>{machine.shed}</TableCell>
+                  <TableCell className={cellPadding}>{machine.makeModel}</TableCell>
+                  <TableCell className={cellPadding}>{machine.reedWidth > 0 ? `${machine.reedWidth}"` : ''}</TableCell>
+                  <TableCell className={cellPadding}>{machine.qualityId ? qualityMap.get(machine.qualityId)?.name : ''}</TableCell>
+                  <TableCell className={cellPadding}>{machine.commissionedOn}</TableCell>
+                  <TableCell className={cellPadding}>
+                    <Badge variant={machine.active ? 'secondary' : 'outline'} className="text-[9px] px-1">
+                      {machine.active ? 'Active' : 'Retired'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className={cn(cellPadding, 'flex gap-1')}>
+                    <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => openDialog(machine)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button type="button" variant="ghost" size="icon" className="h-6 w-6">
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Machine {machine.machineNo}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {machinesWithRecords.has(machine.machineNo)
+                              ? 'This machine has records. Mark it as retired instead so its history stays in reports.'
+                              : 'This will permanently remove the machine from the registry.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMachine(machine.id)}
+                            disabled={machinesWithRecords.has(machine.machineNo)}
+                            className="bg-destructive hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {sortedMachines.length === 0 && <p className="text-center text-xs text-muted-foreground py-4">No machines registered.</p>}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingMachine ? `Edit Machine ${editingMachine.machineNo}` : 'Add Machine'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-2 gap-2">
+              <FormField control={form.control} name="machineNo" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Machine No.</FormLabel>
+                  <FormControl><Input {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="shed" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Shed / Section</FormLabel>
+                  <FormControl><Input {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="makeModel" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Make / Model</FormLabel>
+                  <FormControl><Input {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="reedWidth" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Reed Width (inch)</FormLabel>
+                  <FormControl><Input type="number" step="0.1" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="commissionedOn" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Commissioned On</FormLabel>
+                  <FormControl><Input type="date" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="qualityId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Current Quality</FormLabel>
+                  <Select onValueChange={(value) => field.onChange(value === 'none' ? '' : value)} value={field.value || 'none'}>
+                    <FormControl><SelectTrigger className="h-8"><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No Quality</SelectItem>
+                      {qualityOptions.map(q => <SelectItem key={q.id} value={q.id}>{q.name}{!q.active && ' - Inactive'}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="active" render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel className="text-xs">Active</FormLabel>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <DialogFooter className="col-span-2">
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90">
+                  {editingMachine ? 'Update Machine' : 'Add Machine'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -5,7 +5,7 @@ import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { LayoutDashboard, ListPlus, FileText, SettingsIcon, Wifi, WifiOff, Loader2 } from 'lucide-react';
+import { LayoutDashboard, ListPlus, FileText, SettingsIcon, Wifi, WifiOff, Loader2, ClipboardCheck, Wallet, GitMerge } from 'lucide-react';
 import { useAppState } from '@/hooks/use-app-state';
 import { cn } from '@/lib/utils';
 import Image from 'next/image';
@@ -13,16 +13,18 @@ import Image from 'next/image';
 const navItems = [
   { href: '/', icon: LayoutDashboard, label: 'Dashboard' },
   { href: '/efficiency', icon: ListPlus, label: 'Efficiency' },
+  { href: '/coverage', icon: ClipboardCheck, label: 'Coverage' },
   { href: '/report', icon: FileText, label: 'Report' },
+  { href: '/payroll', icon: Wallet, label: 'Payroll' },
   { href: '/settings', icon: SettingsIcon, label: 'Settings' },
 ];
 
 export function Nav() {
   const pathname = usePathname();
-  const { supabaseStatus, pendingSyncCount } = useAppState();
+  const { syncStatus, pendingSyncCount, syncConflicts } = useAppState();
 
   const getStatusIcon = () => {
-    switch (supabaseStatus) {
+    switch (syncStatus) {
       case 'connected':
         return <Wifi className="h-4 w-4 text-green-400" />;
       case 'disconnected':
@@ -35,15 +37,15 @@ export function Nav() {
   };
 
   const getStatusTooltip = () => {
-     switch (supabaseStatus) {
+     switch (syncStatus) {
       case 'connected':
-        return 'Supabase Connected';
+        return 'Cloud Connected';
       case 'disconnected':
-        return 'Supabase Disconnected';
+        return 'Cloud Disconnected';
       case 'reconnecting':
-        return 'Connecting to Supabase...';
+        return 'Connecting to cloud...';
       default:
-        return 'Supabase status unknown';
+        return 'Cloud status unknown';
     }
   }
 
@@ -57,20 +59,35 @@ export function Nav() {
           <TooltipProvider>
             <Tooltip>
                 <TooltipTrigger asChild>
-                    <div className="flex items-center gap-1.5 p-2 rounded-md bg-primary-foreground/10">
+                    <Link href="/sync" className="flex items-center gap-1.5 p-2 rounded-md bg-primary-foreground/10">
                         {getStatusIcon()}
                         {pendingSyncCount > 0 && (
                             <Badge variant="destructive" className="h-4 w-4 p-0 flex items-center justify-center text-[10px]">
                                 {pendingSyncCount}
                             </Badge>
                         )}
-                    </div>
+                    </Link>
                 </TooltipTrigger>
                 <TooltipContent>
                     <p>{getStatusTooltip()}</p>
                     {pendingSyncCount > 0 && <p>{pendingSyncCount} records pending sync.</p>}
                 </TooltipContent>
             </Tooltip>
+            {syncConflicts.length > 0 && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Link href="/conflicts" className="flex items-center gap-1.5 p-2 rounded-md bg-primary-foreground/10">
+                    <GitMerge className="h-4 w-4 text-yellow-400" />
+                    <Badge variant="destructive" className="h-4 w-4 p-0 flex items-center justify-center text-[10px]">
+                      {syncConflicts.length}
+                    </Badge>
+                  </Link>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{syncConflicts.length} sync conflicts to review.</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
           </TooltipProvider>
 
           <nav className="flex items-center space-x-1">
@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAppState } from '@/hooks/use-app-state';
+import { sortOperators } from '@/lib/operators';
+import { cn } from '@/lib/utils';
+import type { Operator } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { PlusCircle, Edit, Trash2 } from 'lucide-react';
+
+const operatorSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required.'),
+  phone: z.string().trim(),
+  active: z.boolean(),
+});
+
+type OperatorFormValues = z.infer<typeof operatorSchema>;
+
+const EMPTY_OPERATOR: OperatorFormValues = {
+  name: '',
+  phone: '',
+  active: true,
+};
+
+export function OperatorRegistry() {
+  const { operators, operatorAssignments, records, addOperator, updateOperator, deleteOperator } = useAppState();
+  const [editingOperator, setEditingOperator] = useState<Operator | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const form = useForm<OperatorFormValues>({
+    resolver: zodResolver(operatorSchema),
+    defaultValues: EMPTY_OPERATOR,
+  });
+
+  const sortedOperators = useMemo(() => sortOperators(operators), [operators]);
+  const operatorsInUse = useMemo(() => new Set([
+    ...records.map(r => r.operatorId),
+    ...operatorAssignments.map(a => a.operatorId),
+  ].filter(Boolean)), [records, operatorAssignments]);
+
+  const openDialog = (operator: Operator | null) => {
+    setEditingOperator(operator);
+    form.reset(operator ? { ...operator } : EMPTY_OPERATOR);
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = (values: OperatorFormValues) => {
+    const isTaken = operators.some(o => o.name.toLowerCase() === values.name.toLowerCase() && o.id !== editingOperator?.id);
+    if (isTaken) {
+      form.setError('name', { message: `${values.name} already exists.` });
+      return;
+    }
+
+    if (editingOperator) {
+      updateOperator({ ...editingOperator, ...values });
+      toast({ title: 'Operator Updated', description: `${values.name} has been updated.` });
+    } else {
+      addOperator(values);
+      toast({ title: 'Operator Added', description: `${values.name} has been added.` });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <Card className='border-0 shadow-none'>
+      <CardHeader className='p-2 flex flex-row items-center justify-between'>
+        <div>
+          <CardTitle className="text-primary text-lg">Operators</CardTitle>
+          <CardDescription className='text-xs'>Weavers who have left stay in reports but are hidden from entry screens.</CardDescription>
+        </div>
+        <Button type="button" size="sm" onClick={() => openDialog(null)} className="bg-accent hover:bg-accent/90">
+          <PlusCircle className="mr-2 h-4 w-4" /> Add
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table className="text-[10px] font-bold">
+            <TableHeader>
+              <TableRow>
+                <TableHead className={cellPadding}>Name</TableHead>
+                <TableHead className={cellPadding}>Phone</TableHead>
+                <TableHead className={cellPadding}>Status</TableHead>
+                <TableHead className={cellPadding}>Act</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedOperators.map(operator => (
+                <TableRow key={operator.id} className={cn(!operator.active && 'text-muted-foreground')}>
+                  <TableCell className={cn(cellPadding, 'text-purple-600')}>{operator.name}</TableCell>
+                  <TableCell className={cellPadding}>{operator.phone}</TableCell>
+                  <TableCell className={cellPadding}>
+                    <Badge variant={operator.active ? 'secondary' : 'outline'} className="text-[9px] px-1">
+                      {operator.active ? 'Active' : 'Left'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className={cn(cellPadding, 'flex gap-1')}>
+                    <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => openDialog(operator)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button type="button" variant="ghost" size="icon" className="h-6 w-6">
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {operator.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {operatorsInUse.has(operator.id)
+                              ? 'This operator has records or roster slots. Mark them as inactive instead so reports keep their name.'
+                              : 'This will permanently remove the operator.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteOperator(operator.id)}
+                            disabled={operatorsInUse.has(operator.id)}
+                            className="bg-destructive hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {sortedOperators.length === 0 && <p className="text-center text-xs text-muted-foreground py-4">No operators added.</p>}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingOperator ? `Edit ${editingOperator.name}` : 'Add Operator'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-2 gap-2">
+              <FormField control={form.control} name="name" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Name</FormLabel>
+                  <FormControl><Input {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="phone" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Phone</FormLabel>
+                  <FormControl><Input type="tel" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="active" render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel className="text-xs">Active</FormLabel>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <DialogFooter className="col-span-2">
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90">
+                  {editingOperator ? 'Update Operator' : 'Add Operator'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useAppState } from '@/hooks/use-app-state';
+import { getActiveMachineNumbers } from '@/lib/machines';
+import { getAssignedOperatorId, getOperatorMap, sortOperators } from '@/lib/operators';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+export function OperatorRoster() {
+  const { machines, operators, operatorAssignments, settings, assignOperator } = useAppState();
+
+  const machineNumbers = useMemo(() => getActiveMachineNumbers(machines), [machines]);
+  const operatorMap = useMemo(() => getOperatorMap(operators), [operators]);
+  const activeOperators = useMemo(() => sortOperators(operators).filter(o => o.active), [operators]);
+
+  const cellPadding = "p-[2px]";
+
+  if (operators.length === 0) return null;
+
+  return (
+    <Card className='border-0 shadow-none'>
+      <CardHeader className='p-2'>
+        <CardTitle className="text-primary text-lg">Shift Roster</CardTitle>
+        <CardDescription className='text-xs'>New records pick up the operator assigned to that machine and shift.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table className="text-[10px] font-bold">
+            <TableHeader>
+              <TableRow>
+                <TableHead className={cn(cellPadding, 'text-purple-600')}>M/C</TableHead>
+                {settings.shifts.map(shift => (
+                  <TableHead key={shift.code} className={cellPadding}>{shift.name}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {machineNumbers.map(machineNo => (
+                <TableRow key={machineNo}>
+                  <TableCell className={cn(cellPadding, 'text-purple-600')}>{machineNo}</TableCell>
+                  {settings.shifts.map(shift => {
+                    const operatorId = getAssignedOperatorId(operatorAssignments, shift.code, machineNo);
+                    const assigned = operatorId ? operatorMap.get(operatorId) : undefined;
+                    return (
+                      <TableCell key={shift.code} className={cellPadding}>
+                        {/* Radix Select cannot hold an empty value, so "none" stands in for an empty slot */}
+                        <Select value={operatorId ?? 'none'} onValueChange={(value) => assignOperator(shift.code, machineNo, value === 'none' ? undefined : value)}>
+                          <SelectTrigger className="h-7 text-[11px] px-1 min-w-[90px]"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">-</SelectItem>
+                            {assigned && !assigned.active && <SelectItem value={assigned.id}>{assigned.name}</SelectItem>}
+                            {activeOperators.map(o => <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAppState } from '@/hooks/use-app-state';
+import { sortQualities } from '@/lib/qualities';
+import { cn } from '@/lib/utils';
+import type { Quality } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { PlusCircle, Edit, Trash2 } from 'lucide-react';
+
+const qualitySchema = z.object({
+  name: z.string().trim().min(1, 'Sort name is required.'),
+  picksPerInch: z.coerce.number().positive('Picks per inch must be greater than 0.'),
+  reed: z.coerce.number().min(0, 'Reed must be a positive number.'),
+  width: z.coerce.number().min(0, 'Width must be a positive number.'),
+  expectedRpm: z.coerce.number().min(0, 'RPM must be a positive number.'),
+  targetEfficiency: z.coerce.number().min(0).max(100, 'Target must be between 0 and 100.'),
+  wageRate: z.coerce.number().min(0, 'Rate must be a positive number.'),
+  wageBasis: z.enum(['meter', 'kpick']),
+  active: z.boolean(),
+});
+
+type QualityFormValues = z.infer<typeof qualitySchema>;
+
+const EMPTY_QUALITY: QualityFormValues = {
+  name: '',
+  picksPerInch: 0,
+  reed: 0,
+  width: 0,
+  expectedRpm: 0,
+  targetEfficiency: 90,
+  wageRate: 0,
+  wageBasis: 'meter',
+  active: true,
+};
+
+export function QualityCatalogue() {
+  const { qualities, records, machines, addQuality, updateQuality, deleteQuality } = useAppState();
+  const [editingQuality, setEditingQuality] = useState<Quality | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const form = useForm<QualityFormValues>({
+    resolver: zodResolver(qualitySchema),
+    defaultValues: EMPTY_QUALITY,
+  });
+
+  const sortedQualities = useMemo(() => sortQualities(qualities), [qualities]);
+  const qualitiesInUse = useMemo(() => new Set([
+    ...records.map(r => r.qualityId),
+    ...machines.map(m => m.qualityId),
+  ].filter(Boolean)), [records, machines]);
+
+  const openDialog = (quality: Quality | null) => {
+    setEditingQuality(quality);
+    form.reset(quality ? { ...quality } : EMPTY_QUALITY);
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = (values: QualityFormValues) => {
+    const isTaken = qualities.some(q => q.name.toLowerCase() === values.name.toLowerCase() && q.id !== editingQuality?.id);
+    if (isTaken) {
+      form.setError('name', { message: `Quality ${values.name} already exists.` });
+      return;
+    }
+
+    if (editingQuality) {
+      updateQuality({ ...editingQuality, ...values });
+      toast({ title: 'Quality Updated', description: `${values.name} has been updated.` });
+    } else {
+      addQuality(values);
+      toast({ title: 'Quality Added', description: `${values.name} has been added.` });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const cellPadding = "p-[2px]";
+
+  return (
+    <Card className='border-0 shadow-none'>
+      <CardHeader className='p-2 flex flex-row items-center justify-between'>
+        <div>
+          <CardTitle className="text-primary text-lg">Qualities</CardTitle>
+          <CardDescription className='text-xs'>Expected production is worked out from PPI, RPM and target efficiency.</CardDescription>
+        </div>
+        <Button type="button" size="sm" onClick={() => openDialog(null)} className="bg-accent hover:bg-accent/90">
+          <PlusCircle className="mr-2 h-4 w-4" /> Add
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table className="text-[10px] font-bold">
+            <TableHeader>
+              <TableRow>
+                <TableHead className={cellPadding}>Sort</TableHead>
+                <TableHead className={cellPadding}>PPI</TableHead>
+                <TableHead className={cellPadding}>Reed</TableHead>
+                <TableHead className={cellPadding}>Width</TableHead>
+                <TableHead className={cellPadding}>RPM</TableHead>
+                <TableHead className={cellPadding}>Target</TableHead>
+                <TableHead className={cellPadding}>Rate</TableHead>
+                <TableHead className={cellPadding}>Status</TableHead>
+                <TableHead className={cellPadding}>Act</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedQualities.map(quality => (
+                <TableRow key={quality.id} className={cn(!quality.active && 'text-muted-foreground')}>
+                  <TableCell className={cn(cellPadding, 'text-purple-600')}>{quality.name}</TableCell>
+                  <TableCell className={cellPadding}>{quality.picksPerInch}</TableCell>
+                  <TableCell className={cellPadding}>{quality.reed || ''}</TableCell>
+                  <TableCell className={cellPadding}>{quality.width > 0 ? `${quality.width}"` : ''}</TableCell>
+                  <TableCell className={cellPadding}>{quality.expectedRpm || ''}</TableCell>
+                  <TableCell className={cellPadding}>{quality.targetEfficiency}%</TableCell>
+                  <TableCell className={cellPadding}>{quality.wageRate > 0 ? `${quality.wageRate}/${quality.wageBasis === 'kpick' ? '1k pick' : 'm'}` : ''}</TableCell>
+                  <TableCell className={cellPadding}>
+                    <Badge variant={quality.active ? 'secondary' : 'outline'} className="text-[9px] px-1">
+                      {quality.active ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className={cn(cellPadding, 'flex gap-1')}>
+                    <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => openDialog(quality)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button type="button" variant="ghost" size="icon" className="h-6 w-6">
+                          <Trash2 className="h-3 w-3 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {quality.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {qualitiesInUse.has(quality.id)
+                              ? 'This quality is used by records or machines. Mark it as inactive instead so reports keep its name.'
+                              : 'This will permanently remove the quality from the catalogue.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteQuality(quality.id)}
+                            disabled={qualitiesInUse.has(quality.id)}
+                            className="bg-destructive hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {sortedQualities.length === 0 && <p className="text-center text-xs text-muted-foreground py-4">No qualities added.</p>}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingQuality ? `Edit ${editingQuality.name}` : 'Add Quality'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-2 gap-2">
+              <FormField control={form.control} name="name" render={({ field }) => (
+                <FormItem className="col-span-2">
+                  <FormLabel className="text-xs">Sort Name</FormLabel>
+                  <FormControl><Input {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="picksPerInch" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Picks per Inch</FormLabel>
+                  <FormControl><Input type="number" step="0.1" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="reed" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Reed</FormLabel>
+                  <FormControl><Input type="number" step="0.1" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="width" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Width (inch)</FormLabel>
+                  <FormControl><Input type="number" step="0.1" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="expectedRpm" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Expected RPM</FormLabel>
+                  <FormControl><Input type="number" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="targetEfficiency" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Target Efficiency (%)</FormLabel>
+                  <FormControl><Input type="number" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="wageRate" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Weaver Rate</FormLabel>
+                  <FormControl><Input type="number" step="0.01" {...field} className="h-8" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="wageBasis" render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Rate Per</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger className="h-8"><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value="meter">Meter</SelectItem>
+                      <SelectItem value="kpick">1000 Picks</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="active" render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel className="text-xs">Active</FormLabel>
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <DialogFooter className="col-span-2">
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90">
+                  {editingQuality ? 'Update Quality' : 'Add Quality'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
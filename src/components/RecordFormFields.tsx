@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { RecordFormValues } from '@/lib/record-form';
+import { STOP_CATEGORIES } from '@/lib/stops';
+import type { Operator, Quality, ShiftDefinition } from '@/lib/types';
+
+interface RecordFormFieldsProps {
+  form: UseFormReturn<RecordFormValues>;
+  machineOptions: string[];
+  shiftOptions: ShiftDefinition[];
+  qualityOptions: Quality[];
+  operatorOptions: Operator[];
+  derivedFromCounters?: boolean; // stops, weft and times are worked out from the counter reading
+}
+
+export function RecordFormFields({ form, machineOptions, shiftOptions, qualityOptions, operatorOptions, derivedFromCounters = false }: RecordFormFieldsProps) {
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  const formLabelStyle = "font-bold text-[9px]";
+  const derivedInputStyle = cn('h-9', derivedFromCounters && 'bg-muted');
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <FormField
+        control={form.control}
+        name="date"
+        render={({ field }) => (
+          <FormItem className="flex flex-col">
+            <FormLabel className={formLabelStyle}>Date</FormLabel>
+            <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+              <PopoverTrigger asChild>
+                <FormControl>
+                  <Button variant="outline" className={cn('pl-3 text-left font-normal h-9 w-full', !field.value && 'text-muted-foreground')}>
+                    {field.value ? format(field.value, 'dd/MM/yy') : <span>Pick date</span>}
+                    <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                  </Button>
+                </FormControl>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={field.value}
+                  onSelect={(date) => {
+                      if (date) {
+                          field.onChange(date);
+                          setIsDatePickerOpen(false);
+                      }
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="time"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>Time</FormLabel>
+            <FormControl><Input type="time" {...field} className="h-9" /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="shift"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>Shift</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl><SelectTrigger className="h-9"><SelectValue placeholder="Shift" /></SelectTrigger></FormControl>
+              <SelectContent>
+                {shiftOptions.map(shift => <SelectItem key={shift.code} value={shift.code}>{shift.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="machineNo"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>M/C No</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl><SelectTrigger className="h-9"><SelectValue placeholder="M/C" /></SelectTrigger></FormControl>
+              <SelectContent>
+                {machineOptions.map(num => <SelectItem key={num} value={num}>{num}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="stops"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>Stops</FormLabel>
+            <FormControl><Input type="number" {...field} readOnly={derivedFromCounters} className={derivedInputStyle} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="weftMeter"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>Weft(m)</FormLabel>
+            <FormControl><Input type="number" step="0.1" {...field} readOnly={derivedFromCounters} className={derivedInputStyle} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="total"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>Total</FormLabel>
+            <FormControl><Input placeholder="HH:MM:SS" {...field} readOnly={derivedFromCounters} className={derivedInputStyle} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="run"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>Run</FormLabel>
+            <FormControl><Input placeholder="HH:MM:SS" {...field} readOnly={derivedFromCounters} className={derivedInputStyle} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="qualityId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className={formLabelStyle}>Quality</FormLabel>
+            {/* Radix Select cannot hold an empty value, so "none" stands in for no quality */}
+            <Select onValueChange={(value) => field.onChange(value === 'none' ? undefined : value)} value={field.value || 'none'}>
+              <FormControl><SelectTrigger className="h-9"><SelectValue placeholder="Quality" /></SelectTrigger></FormControl>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {qualityOptions.map(quality => <SelectItem key={quality.id} value={quality.id}>{quality.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="operatorId"
+        render={({ field }) => (
+          <FormItem className="col-span-2">
+            <FormLabel className={formLabelStyle}>Operator</FormLabel>
+            <Select onValueChange={(value) => field.onChange(value === 'none' ? undefined : value)} value={field.value || 'none'}>
+              <FormControl><SelectTrigger className="h-9"><SelectValue placeholder="Operator" /></SelectTrigger></FormControl>
+              <SelectContent>
+                <SelectItem value="none">Unassigned</SelectItem>
+                {operatorOptions.map(operator => <SelectItem key={operator.id} value={operator.id}>{operator.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="col-span-3">
+        <p className={formLabelStyle}>Stops by Category</p>
+        <div className="grid grid-cols-6 gap-1 mt-1">
+          {STOP_CATEGORIES.map(category => (
+            <FormField
+              key={category.key}
+              control={form.control}
+              name={`stopBreakdown.${category.key}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[8px] text-muted-foreground">{category.label}</FormLabel>
+                  <FormControl><Input type="number" inputMode="numeric" {...field} className="h-8 px-1" /></FormControl>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        {form.formState.errors.stopBreakdown?.message && (
+          <p className="text-[11px] font-medium text-destructive mt-1">{form.formState.errors.stopBreakdown.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
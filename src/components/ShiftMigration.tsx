@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { useAppState } from '@/hooks/use-app-state';
+import { getUndefinedShiftCodes } from '@/lib/shifts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { ArrowRight } from 'lucide-react';
+
+// Lets existing records whose shift code is no longer defined be moved onto a configured shift.
+export function ShiftMigration() {
+  const { records, settings, remapRecordShift } = useAppState();
+  const [targets, setTargets] = useState<{ [fromCode: string]: string }>({});
+
+  const undefinedCodes = useMemo(() => getUndefinedShiftCodes(settings.shifts, records), [settings.shifts, records]);
+
+  if (undefinedCodes.length === 0) return null;
+
+  const handleMigrate = (fromCode: string) => {
+    const toCode = targets[fromCode];
+    if (!toCode) return;
+    const { migrated, skipped } = remapRecordShift(fromCode, toCode);
+    toast({ title: 'Records Migrated', description: `${migrated} records moved from "${fromCode}" to "${toCode}".` });
+    if (skipped > 0) {
+      toast({
+        title: 'Some Records Not Moved',
+        description: `${skipped} records stay on "${fromCode}" because their machine already has a "${toCode}" record for that date.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className='border-yellow-400'>
+      <CardHeader className='p-2'>
+        <CardTitle className="text-primary text-lg">Migrate Records</CardTitle>
+        <CardDescription className='text-xs'>These shift codes are used by existing records but are not defined above.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 p-2">
+        {undefinedCodes.map(code => (
+          <div key={code} className="flex items-center gap-2 text-xs font-bold">
+            <span className="w-24 truncate">{code} ({records.filter(r => r.shift === code).length})</span>
+            <ArrowRight className="h-4 w-4 shrink-0" />
+            <Select value={targets[code]} onValueChange={(val) => setTargets(prev => ({ ...prev, [code]: val }))}>
+              <SelectTrigger className="h-8"><SelectValue placeholder="Shift" /></SelectTrigger>
+              <SelectContent>
+                {settings.shifts.map(s => <SelectItem key={s.code} value={s.code}>{s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button type="button" size="sm" onClick={() => handleMigrate(code)} disabled={!targets[code]}>Move</Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
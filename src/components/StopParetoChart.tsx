@@ -0,0 +1,33 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { buildStopPareto } from '@/lib/stops';
+import type { LoomRecord } from '@/lib/types';
+
+interface StopParetoChartProps {
+  records: LoomRecord[];
+}
+
+export function StopParetoChart({ records }: StopParetoChartProps) {
+  const data = useMemo(() => buildStopPareto(records), [records]);
+
+  if (data.length === 0) {
+    return <p className="text-center text-xs text-muted-foreground py-4">No stops recorded.</p>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <ComposedChart data={data} margin={{ top: 20, right: 0, left: -20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="label" fontSize={10} />
+        <YAxis yAxisId="count" fontSize={10} allowDecimals={false} />
+        <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} unit="%" fontSize={10} />
+        <Tooltip contentStyle={{ fontSize: "12px" }} formatter={(value: number, name: string) => name === 'Cumulative' ? `${value.toFixed(1)}%` : value} />
+        <Legend wrapperStyle={{ fontSize: "12px" }} />
+        <Bar yAxisId="count" dataKey="count" fill="hsl(var(--primary))" name="Stops" />
+        <Line yAxisId="percent" type="monotone" dataKey="cumulativePercent" stroke="hsl(var(--accent))" strokeWidth={2} name="Cumulative" />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAppState } from '@/hooks/use-app-state';
+import { getStorageEstimate, type StorageEstimate } from '@/lib/storage';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Shows how much of the browser's storage quota the app's data takes up on this device.
+export function StorageUsage() {
+  const { records } = useAppState();
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+
+  // Usage only changes noticeably as records are added or removed
+  useEffect(() => {
+    getStorageEstimate().then(setEstimate).catch(() => setEstimate(null));
+  }, [records.length]);
+
+  const usedPercent = estimate && estimate.quota > 0 ? (estimate.usage / estimate.quota) * 100 : 0;
+
+  return (
+    <Card className='border-0 shadow-none'>
+      <CardHeader className='p-2'>
+        <CardTitle className="text-primary text-lg">Device Storage</CardTitle>
+        <CardDescription className='text-xs'>{records.length} records stored on this device.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1 p-2">
+        {estimate ? (
+          <>
+            <Progress value={usedPercent} className={cn('h-2', usedPercent > 80 && '[&>div]:bg-destructive')} />
+            <p className="text-xs font-bold">
+              {formatMegabytes(estimate.usage)} of {formatMegabytes(estimate.quota)} used ({usedPercent.toFixed(1)}%)
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">This browser does not report storage usage.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,122 +1,297 @@
 
 'use client';
 
-import React, { createContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
-import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
-import type { LoomRecord, AppSettings } from '@/lib/types';
+import React, { createContext, useState, useEffect, ReactNode, useCallback, useRef, useMemo } from 'react';
+import type { LoomRecord, AppSettings, Machine, Quality, Operator, OperatorAssignment, WageDeduction, DowntimeEvent, Beam, SyncConflict } from '@/lib/types';
 import { DEFAULT_SETTINGS } from '@/lib/types';
-import { getFromLocalStorage, saveToLocalStorage } from '@/lib/storage';
+import { getFromLocalStorage, saveToLocalStorage, loadRecordsWithMigration, putRecords, deleteRecords, getRecordsByIndex, type RecordIndex } from '@/lib/storage';
+import { createDefaultMachines } from '@/lib/machines';
+import { getAssignmentId } from '@/lib/operators';
+import { stampRecord, hasSameContent, isConcurrentEdit, pickNewer, mergeRecords } from '@/lib/conflicts';
+import { markDeleted, markRestored, isPurgeable } from '@/lib/trash';
+import { planRecordMerge, type BackupFile, type RestoreMode } from '@/lib/backup';
+import { findDuplicateRecord } from '@/lib/record-form';
+import { recordToRow, rowToRecord, settingsToRow, rowToSettings, entityToRow, rowToEntity, SYNCED_COLLECTIONS, type SyncedCollection, type SyncedEntityMap } from '@/lib/supabase-mappers';
+import { RECORDS_TABLE, GLOBAL_SETTINGS_ID, SETTINGS_TABLE, fetchAllPages, advanceCursor, type SyncBackend } from '@/lib/sync-backend';
+import { createSupabaseBackend } from '@/lib/supabase-backend';
+import { createServerBackend } from '@/lib/server-backend';
+import { getOperationId, recordFailedAttempt, isRetryDue, SYNC_RETRY_BASE_MS, type PendingSyncOperation, type SyncAttempt } from '@/lib/sync-queue';
 import { toast } from '@/hooks/use-toast';
 
 const LOCAL_RECORDS_STORAGE_KEY = 'laxmi-shree-records-v2';
 const LOCAL_SETTINGS_STORAGE_KEY = 'laxmi-shree-settings-v2';
 const PENDING_SYNC_STORAGE_KEY = 'laxmi-shree-pending-sync-v2';
-const GLOBAL_SETTINGS_ID = 'global_settings';
+const LOCAL_MACHINES_STORAGE_KEY = 'laxmi-shree-machines-v2';
+const LOCAL_QUALITIES_STORAGE_KEY = 'laxmi-shree-qualities-v2';
+const LOCAL_OPERATORS_STORAGE_KEY = 'laxmi-shree-operators-v2';
+const LOCAL_OPERATOR_ASSIGNMENTS_STORAGE_KEY = 'laxmi-shree-operator-assignments-v2';
+const LOCAL_WAGE_DEDUCTIONS_STORAGE_KEY = 'laxmi-shree-wage-deductions-v2';
+const LOCAL_DOWNTIME_EVENTS_STORAGE_KEY = 'laxmi-shree-downtime-events-v2';
+const LOCAL_BEAMS_STORAGE_KEY = 'laxmi-shree-beams-v2';
+const SYNC_CONFLICTS_STORAGE_KEY = 'laxmi-shree-sync-conflicts-v2';
+const SYNC_CURSORS_STORAGE_KEY = 'laxmi-shree-sync-cursors-v2';
+const SYNC_ATTEMPTS_STORAGE_KEY = 'laxmi-shree-sync-attempts-v2';
+
+type SyncStatus = 'disconnected' | 'connected' | 'reconnecting';
+// No backend when the chosen one is not configured; the app then works offline.
+const createSyncBackend = (settings: AppSettings): SyncBackend | null => {
+  if (settings.syncBackend === 'server') return settings.syncToken ? createServerBackend(settings.syncToken) : null;
+  if (settings.supabaseUrl && settings.supabaseKey) return createSupabaseBackend(settings.supabaseUrl, settings.supabaseKey);
+  return null;
+};
 
-type SupabaseStatus = 'disconnected' | 'connected' | 'reconnecting';
-type PendingSyncOperation = 
-    | { type: 'add' | 'update'; record: LoomRecord }
-    | { type: 'delete'; id: string };
+// Remote copies win over local copies with the same id.
+const mergeById = <T extends { id: string }>(local: T[], remote: T[]): T[] => {
+  const localMap = new Map(local.map(item => [item.id, item]));
+  const remoteMap = new Map(remote.map(item => [item.id, item]));
+  return Array.from(new Map([...localMap, ...remoteMap]).values());
+};
 
 export interface AppContextType {
   records: LoomRecord[];
+  // Bumped each time saved records change, for views that read them back from storage
+  recordsRevision: number;
+  // Live records with the given date, machine or shift, looked up through the storage index
+  getRecordsBy: (index: RecordIndex, value: string) => Promise<LoomRecord[]>;
+  deletedRecords: LoomRecord[];
   settings: AppSettings;
+  machines: Machine[];
+  qualities: Quality[];
+  operators: Operator[];
+  operatorAssignments: OperatorAssignment[];
+  wageDeductions: WageDeduction[];
+  downtimeEvents: DowntimeEvent[];
+  beams: Beam[];
+  syncConflicts: SyncConflict[];
   addRecord: (record: Omit<LoomRecord, 'id'>) => void;
+  addRecords: (records: Omit<LoomRecord, 'id'>[]) => void;
   updateRecord: (updatedRecord: LoomRecord) => void;
   deleteRecord: (id: string) => void;
+  restoreRecord: (id: string) => void;
+  remapRecordShift: (fromCode: string, toCode: string) => { migrated: number; skipped: number };
+  addMachine: (machine: Omit<Machine, 'id'>) => void;
+  updateMachine: (updatedMachine: Machine) => void;
+  deleteMachine: (id: string) => void;
+  addQuality: (quality: Omit<Quality, 'id'>) => void;
+  updateQuality: (updatedQuality: Quality) => void;
+  deleteQuality: (id: string) => void;
+  addOperator: (operator: Omit<Operator, 'id'>) => void;
+  updateOperator: (updatedOperator: Operator) => void;
+  deleteOperator: (id: string) => void;
+  assignOperator: (shift: string, machineNo: string, operatorId: string | undefined) => void;
+  addWageDeduction: (deduction: Omit<WageDeduction, 'id'>) => void;
+  deleteWageDeduction: (id: string) => void;
+  addDowntimeEvent: (event: Omit<DowntimeEvent, 'id'>) => void;
+  deleteDowntimeEvent: (id: string) => void;
+  addBeam: (beam: Omit<Beam, 'id'>) => void;
+  updateBeam: (updatedBeam: Beam) => void;
+  deleteBeam: (id: string) => void;
+  resolveConflict: (id: string, keep: 'local' | 'remote') => void;
+  restoreBackup: (backup: BackupFile, mode: RestoreMode) => void;
   updateSettings: (newSettings: Partial<AppSettings>) => void;
   deleteAllData: () => void;
   isInitialized: boolean;
-  supabaseStatus: SupabaseStatus;
+  syncStatus: SyncStatus;
   pendingSyncCount: number;
+  pendingSync: PendingSyncOperation[];
+  syncAttempts: Record<string, SyncAttempt>;
+  retrySync: (id?: string) => void;
+  discardPendingOperation: (id: string) => void;
 }
 
 export const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [isInitialized, setIsInitialized] = useState(false);
+  // Includes tombstones of deleted records until they are purged
   const [records, setRecords] = useState<LoomRecord[]>([]);
+  const [recordsRevision, setRecordsRevision] = useState(0);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [pendingSync, setPendingSync] = useState<PendingSyncOperation[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [qualities, setQualities] = useState<Quality[]>([]);
+  const [operators, setOperators] = useState<Operator[]>([]);
+  const [operatorAssignments, setOperatorAssignments] = useState<OperatorAssignment[]>([]);
+  const [wageDeductions, setWageDeductions] = useState<WageDeduction[]>([]);
+  const [downtimeEvents, setDowntimeEvents] = useState<DowntimeEvent[]>([]);
+  const [beams, setBeams] = useState<Beam[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [syncAttempts, setSyncAttempts] = useState<Record<string, SyncAttempt>>({});
   
-  const [supabaseClient, setSupabaseClient] = useState<SupabaseClient | null>(null);
-  const [supabaseStatus, setSupabaseStatus] = useState<SupabaseStatus>('disconnected');
+  // Setters are stable, so this map never changes
+  const collectionSetters = useMemo((): { [K in SyncedCollection]: React.Dispatch<React.SetStateAction<SyncedEntityMap[K][]>> } => ({
+    machines: setMachines,
+    qualities: setQualities,
+    operators: setOperators,
+    operatorAssignments: setOperatorAssignments,
+    wageDeductions: setWageDeductions,
+    downtimeEvents: setDowntimeEvents,
+    beams: setBeams,
+  }), []);
+  
+  const [syncBackend, setSyncBackend] = useState<SyncBackend | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('disconnected');
   
   const isSyncing = useRef(false);
   const initialDataFetched = useRef(false);
   const activeSyncIds = useRef(new Set<string>());
-
-  // Load initial data from localStorage on mount
+  // Records as last written to IndexedDB, so only changed records are written again
+  const persistedRecords = useRef(new Map<string, LoomRecord>());
+  // Without IndexedDB (e.g. some private browsing modes) records stay in localStorage
+  const isLegacyRecordStorage = useRef(false);
+  // Lookups are served from memory when records are not in IndexedDB
+  const recordsRef = useRef<LoomRecord[]>([]);
+  // Records with edits waiting to be pushed; cloud copies must not overwrite them before the conflict check
+  const pendingRecordIds = useRef(new Set<string>());
+  // Read by processPending without making it change on every failed attempt
+  const syncAttemptsRef = useRef<Record<string, SyncAttempt>>({});
+
+  // Load initial data from local storage on mount
   useEffect(() => {
-    const localRecords = getFromLocalStorage<LoomRecord[]>(LOCAL_RECORDS_STORAGE_KEY, []);
     const localSettings = getFromLocalStorage<AppSettings>(LOCAL_SETTINGS_STORAGE_KEY, DEFAULT_SETTINGS);
     const localPending = getFromLocalStorage<PendingSyncOperation[]>(PENDING_SYNC_STORAGE_KEY, []);
+    const localMachines = getFromLocalStorage<Machine[] | null>(LOCAL_MACHINES_STORAGE_KEY, null);
+    const localQualities = getFromLocalStorage<Quality[]>(LOCAL_QUALITIES_STORAGE_KEY, []);
+    const localOperators = getFromLocalStorage<Operator[]>(LOCAL_OPERATORS_STORAGE_KEY, []);
+    const localAssignments = getFromLocalStorage<OperatorAssignment[]>(LOCAL_OPERATOR_ASSIGNMENTS_STORAGE_KEY, []);
+    const localDeductions = getFromLocalStorage<WageDeduction[]>(LOCAL_WAGE_DEDUCTIONS_STORAGE_KEY, []);
+    const localDowntime = getFromLocalStorage<DowntimeEvent[]>(LOCAL_DOWNTIME_EVENTS_STORAGE_KEY, []);
+    const localBeams = getFromLocalStorage<Beam[]>(LOCAL_BEAMS_STORAGE_KEY, []);
+    const localConflicts = getFromLocalStorage<SyncConflict[]>(SYNC_CONFLICTS_STORAGE_KEY, []);
+    const localAttempts = getFromLocalStorage<Record<string, SyncAttempt>>(SYNC_ATTEMPTS_STORAGE_KEY, {});
     
-    setRecords(localRecords);
-    setSettings(localSettings);
+    // Older saved settings may lack newer keys such as shifts
+    setSettings({ ...DEFAULT_SETTINGS, ...localSettings });
     setPendingSync(localPending);
-    setIsInitialized(true);
+    setMachines(localMachines ?? createDefaultMachines(localSettings.totalMachines));
+    // Qualities saved before wage rates existed have no rate fields
+    setQualities(localQualities.map(q => ({ ...q, wageRate: q.wageRate ?? 0, wageBasis: q.wageBasis ?? 'meter' })));
+    setOperators(localOperators);
+    setOperatorAssignments(localAssignments);
+    setWageDeductions(localDeductions);
+    setDowntimeEvents(localDowntime);
+    setBeams(localBeams);
+    setSyncConflicts(localConflicts);
+    setSyncAttempts(localAttempts);
+
+    const loadRecords = async () => {
+      let localRecords: LoomRecord[];
+      try {
+        localRecords = await loadRecordsWithMigration<LoomRecord>(LOCAL_RECORDS_STORAGE_KEY);
+      } catch (error) {
+        console.warn('IndexedDB unavailable, keeping records in localStorage:', error);
+        isLegacyRecordStorage.current = true;
+        localRecords = getFromLocalStorage<LoomRecord[]>(LOCAL_RECORDS_STORAGE_KEY, []);
+      }
+      persistedRecords.current = new Map(localRecords.map(r => [r.id, r]));
+      setRecords(localRecords);
+      setIsInitialized(true);
+    };
+    loadRecords();
   }, []);
+
+  // Write only the records that were added, replaced or removed since the last save
+  useEffect(() => {
+    recordsRef.current = records;
+    if (!isInitialized) return;
+    if (isLegacyRecordStorage.current) {
+      saveToLocalStorage(LOCAL_RECORDS_STORAGE_KEY, records);
+      setRecordsRevision(prev => prev + 1);
+      return;
+    }
+    const previous = persistedRecords.current;
+    const current = new Map(records.map(r => [r.id, r]));
+    const changed = records.filter(r => previous.get(r.id) !== r);
+    const removedIds = Array.from(previous.keys()).filter(id => !current.has(id));
+    persistedRecords.current = current;
+
+    // Index lookups only see the change once it is written
+    Promise.all([putRecords(changed), deleteRecords(removedIds)]).then(() => {
+      setRecordsRevision(prev => prev + 1);
+    }).catch(error => {
+      console.error('Failed to save records to IndexedDB:', error);
+      toast({ title: 'Local Save Failed', description: 'Recent changes could not be stored on this device.', variant: 'destructive' });
+    });
+  }, [records, isInitialized]);
   
-  // Save to localStorage when data changes
+  // Save the smaller collections to localStorage when they change
   useEffect(() => {
     if (isInitialized) {
-      saveToLocalStorage(LOCAL_RECORDS_STORAGE_KEY, records);
       saveToLocalStorage(PENDING_SYNC_STORAGE_KEY, pendingSync);
       saveToLocalStorage(LOCAL_SETTINGS_STORAGE_KEY, settings);
+      saveToLocalStorage(LOCAL_MACHINES_STORAGE_KEY, machines);
+      saveToLocalStorage(LOCAL_QUALITIES_STORAGE_KEY, qualities);
+      saveToLocalStorage(LOCAL_OPERATORS_STORAGE_KEY, operators);
+      saveToLocalStorage(LOCAL_OPERATOR_ASSIGNMENTS_STORAGE_KEY, operatorAssignments);
+      saveToLocalStorage(LOCAL_WAGE_DEDUCTIONS_STORAGE_KEY, wageDeductions);
+      saveToLocalStorage(LOCAL_DOWNTIME_EVENTS_STORAGE_KEY, downtimeEvents);
+      saveToLocalStorage(LOCAL_BEAMS_STORAGE_KEY, beams);
+      saveToLocalStorage(SYNC_CONFLICTS_STORAGE_KEY, syncConflicts);
+      saveToLocalStorage(SYNC_ATTEMPTS_STORAGE_KEY, syncAttempts);
     }
-  }, [records, pendingSync, settings, isInitialized]);
+  }, [pendingSync, settings, machines, qualities, operators, operatorAssignments, wageDeductions, downtimeEvents, beams, syncConflicts, syncAttempts, isInitialized]);
+
+  useEffect(() => {
+    pendingRecordIds.current = new Set(pendingSync.filter(op => op.type === 'add' || op.type === 'update').map(getOperationId));
+  }, [pendingSync]);
+
+  useEffect(() => {
+    syncAttemptsRef.current = syncAttempts;
+  }, [syncAttempts]);
   
-  // Manage Supabase client based on settings
+  // Manage the sync backend based on settings
   useEffect(() => {
     if (!isInitialized) return;
-    
-    const { supabaseUrl, supabaseKey } = settings;
-
-    if (supabaseUrl && supabaseKey) {
-      const client = createClient(supabaseUrl, supabaseKey);
-      setSupabaseClient(client);
-      initialDataFetched.current = false;
-    } else {
-      setSupabaseClient(null);
-    }
-  }, [isInitialized, settings.supabaseUrl, settings.supabaseKey]);
+    setSyncBackend(createSyncBackend(settings));
+    initialDataFetched.current = false;
+  }, [isInitialized, settings.syncBackend, settings.syncToken, settings.supabaseUrl, settings.supabaseKey]);
 
-  const processPending = useCallback(async (client: SupabaseClient) => {
+  const processPending = useCallback(async (backend: SyncBackend) => {
     if (isSyncing.current || pendingSync.length === 0) return;
     isSyncing.current = true;
 
-    const remainingOps = [...pendingSync];
     const successfulOps: PendingSyncOperation[] = [];
+    const failures = new Map<string, unknown>();
 
     for (const op of pendingSync) {
-        const opId = (op as any).record?.id || op.id;
+        const opId = getOperationId(op);
         if (activeSyncIds.current.has(opId)) continue;
+        // Failed operations wait out their backoff
+        if (!isRetryDue(syncAttemptsRef.current[opId])) continue;
         
         activeSyncIds.current.add(opId);
 
         try {
             if (op.type === 'add' || op.type === 'update') {
-                const recordForSupabase = {
-                    id: op.record.id,
-                    date: op.record.date,
-                    time: op.record.time,
-                    shift: op.record.shift,
-                    machine_no: op.record.machineNo,
-                    stops: op.record.stops,
-                    weft_meter: op.record.weftMeter,
-                    total: op.record.total,
-                    run: op.record.run,
-                };
-                const { error } = await client.from('loom_records').upsert(recordForSupabase, { onConflict: 'id' });
-                if (error) throw error;
+                const remoteRow = await backend.fetchOne(RECORDS_TABLE, op.record.id);
+                const remote = remoteRow ? rowToRecord(remoteRow) : undefined;
+
+                if (remote && isConcurrentEdit(op.record, remote)) {
+                    const applied = pickNewer(op.record, remote);
+                    setSyncConflicts(prev => [
+                      ...prev.filter(c => c.id !== remote.id),
+                      { id: remote.id, local: op.record, remote, applied, detectedAt: new Date().toISOString() },
+                    ]);
+                    // The applied copy must sit on top of both versions
+                    const winner = applied === 'local' ? { ...op.record, version: (remote.version ?? 0) + 1 } : remote;
+                    if (applied === 'local') {
+                        await backend.upsert(RECORDS_TABLE, recordToRow(winner));
+                    }
+                    setRecords(prev => prev.map(r => r.id === winner.id ? winner : r));
+                } else if (!remote || !hasSameContent(op.record, remote)) {
+                    await backend.upsert(RECORDS_TABLE, recordToRow(op.record));
+                }
             } else if (op.type === 'delete') {
-                const { error } = await client.from('loom_records').delete().eq('id', op.id);
-                if (error) throw error;
+                await backend.delete(RECORDS_TABLE, op.id);
+            } else if (op.type === 'upsert-entity') {
+                await backend.upsert(SYNCED_COLLECTIONS[op.collection].table, { ...entityToRow(op.collection, op.entity), id: op.entity.id });
+            } else if (op.type === 'delete-entity') {
+                await backend.delete(SYNCED_COLLECTIONS[op.collection].table, op.id);
             }
             successfulOps.push(op);
         } catch (error) {
-            console.error('Failed to sync pending operation:', op.type, (op as any).record?.id || op.id, error);
+            console.error('Failed to sync pending operation:', op.type, opId, error);
+            failures.set(opId, error);
         } finally {
             activeSyncIds.current.delete(opId);
         }
@@ -125,6 +300,16 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     if (successfulOps.length > 0) {
       setPendingSync(currentPending => currentPending.filter(op => !successfulOps.includes(op)));
     }
+    if (successfulOps.length > 0 || failures.size > 0) {
+      const syncedIds = new Set(successfulOps.map(getOperationId));
+      setSyncAttempts(prev => {
+        const next = Object.fromEntries(Object.entries(prev).filter(([id]) => !syncedIds.has(id)));
+        failures.forEach((error, id) => {
+          next[id] = recordFailedAttempt(prev[id], error);
+        });
+        return next;
+      });
+    }
     
     isSyncing.current = false;
     
@@ -132,216 +317,491 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
 
   // Manage subscriptions and data fetching
   useEffect(() => {
-    if (!supabaseClient) {
-      setSupabaseStatus('disconnected');
+    if (!syncBackend) {
+      setSyncStatus('disconnected');
       return;
     }
 
-    let recordsChannel: RealtimeChannel | null = null;
-    let settingsChannel: RealtimeChannel | null = null;
-
+    const unsubscribers: (() => void)[] = [];
     const setupSubscriptions = async () => {
-      setSupabaseStatus('reconnecting');
+      setSyncStatus('reconnecting');
       
       try {
         if (!initialDataFetched.current) {
           // Fetch settings first
-          const { data: initialSettings, error: settingsError } = await supabaseClient
-            .from('settings')
-            .select('total_machines, low_efficiency_threshold, whatsapp_number, message_template')
-            .eq('id', GLOBAL_SETTINGS_ID)
-            .single();
-          
-          if (settingsError && settingsError.code !== 'PGRST116') throw settingsError;
-
+          const initialSettings = await syncBackend.getSettings();
           if (initialSettings) {
-            setSettings(prev => ({
-              ...prev,
-              totalMachines: initialSettings.total_machines,
-              lowEfficiencyThreshold: initialSettings.low_efficiency_threshold,
-              whatsAppNumber: initialSettings.whatsapp_number,
-              messageTemplate: initialSettings.message_template,
-            }));
+            setSettings(prev => ({ ...prev, ...rowToSettings(initialSettings) }));
           }
 
-          // Fetch records
-          const { data: initialRecords, error: recordsError } = await supabaseClient.from('loom_records').select('*');
-          if (recordsError) throw recordsError;
-
-          const transformedRecords = initialRecords.map(r => ({
-            ...r,
-            machineNo: r.machine_no,
-            weftMeter: r.weft_meter,
-          }));
-
-          setRecords(prevLocalRecords => {
-            const remoteRecordsMap = new Map((transformedRecords || []).map(r => [r.id, r]));
-            const localRecordsMap = new Map(prevLocalRecords.map(r => [r.id, r]));
-            const merged = Array.from(new Map([...localRecordsMap, ...remoteRecordsMap]).values());
-            return merged;
-          });
+          // Fetch records, only those changed since the last sync when this device has synced with the backend before
+          const cursors = getFromLocalStorage<Record<string, string>>(SYNC_CURSORS_STORAGE_KEY, {});
+          const cursor = cursors[syncBackend.id];
+          const changedRows = await fetchAllPages(syncBackend, RECORDS_TABLE, cursor);
+          const transformedRecords = changedRows.map(rowToRecord);
+          setRecords(prevLocalRecords => mergeRecords(prevLocalRecords, transformedRecords, pendingRecordIds.current));
+          const nextCursor = advanceCursor(cursor, changedRows);
+          if (nextCursor) saveToLocalStorage(SYNC_CURSORS_STORAGE_KEY, { ...cursors, [syncBackend.id]: nextCursor });
+
+          // Fetch master data. A missing table only disables sync for that collection.
+          for (const collection of Object.keys(SYNCED_COLLECTIONS) as SyncedCollection[]) {
+            const { table } = SYNCED_COLLECTIONS[collection];
+            let rows: any[];
+            try {
+              rows = await fetchAllPages(syncBackend, table);
+            } catch (error) {
+              console.warn(`Could not fetch ${table} from the sync backend:`, error);
+              continue;
+            }
+            const setCollection = collectionSetters[collection] as React.Dispatch<React.SetStateAction<SyncedEntityMap[SyncedCollection][]>>;
+            setCollection(prev => mergeById(prev, rows.map(row => rowToEntity(collection, row))));
+          }
 
           initialDataFetched.current = true;
         }
 
-        await processPending(supabaseClient);
+        await processPending(syncBackend);
         
-        setSupabaseStatus('connected');
-        // if (initialDataFetched.current) {
-        //     toast({ title: "Cloud Connected", description: "Data is live and syncing." });
-        // }
+        setSyncStatus('connected');
         
-        settingsChannel = supabaseClient.channel('settings-channel')
-          .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'settings', filter: `id=eq.${GLOBAL_SETTINGS_ID}` }, (payload) => {
-            const newSettings = payload.new as any;
-            setSettings(prev => ({
-                ...prev,
-                totalMachines: newSettings.total_machines,
-                lowEfficiencyThreshold: newSettings.low_efficiency_threshold,
-                whatsAppNumber: newSettings.whatsapp_number,
-                messageTemplate: newSettings.message_template,
-            }));
-          }).subscribe();
+        unsubscribers.push(syncBackend.subscribe(SETTINGS_TABLE, (change) => {
+          if (change.type === 'upsert' && change.id === GLOBAL_SETTINGS_ID) {
+            setSettings(prev => ({ ...prev, ...rowToSettings(change.row) }));
+          }
+        }));
         
-        recordsChannel = supabaseClient.channel('loom-records-channel')
-          .on('postgres_changes', { event: '*', schema: 'public', table: 'loom_records' }, (payload) => {
-            const recordId = (payload.new as LoomRecord)?.id || (payload.old as any)?.id;
-            if (activeSyncIds.current.has(recordId)) return;
-
-            setRecords(currentRecords => {
-              let newRecords = [...currentRecords];
-              if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
-                const newRecord = {
-                    ...(payload.new as any),
-                    machineNo: payload.new.machine_no,
-                    weftMeter: payload.new.weft_meter
-                } as LoomRecord;
-                const existingIndex = newRecords.findIndex(r => r.id === newRecord.id);
-                if (existingIndex > -1) {
-                  newRecords[existingIndex] = newRecord;
-                } else {
-                  newRecords.push(newRecord);
-                }
-              } else if (payload.eventType === 'DELETE') {
-                const oldId = payload.old.id;
-                newRecords = newRecords.filter(r => r.id !== oldId);
-              }
-              return newRecords;
-            });
-          }).subscribe((status, err) => {
-            if (err) {
-              console.error('Subscription error', err);
-              setSupabaseStatus('disconnected');
+        unsubscribers.push(syncBackend.subscribe(RECORDS_TABLE, (change) => {
+          if (activeSyncIds.current.has(change.id)) return;
+          if (change.type !== 'delete' && pendingRecordIds.current.has(change.id)) return;
+
+          setRecords(currentRecords => {
+            if (change.type === 'delete') {
+              return currentRecords.filter(r => r.id !== change.id);
             }
+            const newRecord = rowToRecord(change.row);
+            const exists = currentRecords.some(r => r.id === newRecord.id);
+            return exists ? currentRecords.map(r => r.id === newRecord.id ? newRecord : r) : [...currentRecords, newRecord];
           });
+        }, (error) => {
+          console.error('Subscription error', error);
+          setSyncStatus('disconnected');
+        }));
+
+        (Object.keys(SYNCED_COLLECTIONS) as SyncedCollection[]).forEach(collection => {
+          const { table } = SYNCED_COLLECTIONS[collection];
+          const setCollection = collectionSetters[collection] as React.Dispatch<React.SetStateAction<SyncedEntityMap[SyncedCollection][]>>;
+          unsubscribers.push(syncBackend.subscribe(table, (change) => {
+            if (activeSyncIds.current.has(change.id)) return;
+
+            setCollection(current => {
+              if (change.type === 'delete') {
+                return current.filter(e => e.id !== change.id);
+              }
+              const entity = rowToEntity(collection, change.row);
+              const exists = current.some(e => e.id === entity.id);
+              return exists ? current.map(e => e.id === entity.id ? entity : e) : [...current, entity];
+            });
+          }));
+        });
 
       } catch (error) {
-          console.error('Supabase connection or initial fetch failed:', error);
-          setSupabaseStatus('disconnected');
-          // toast({ title: 'Connection Failed', description: 'Could not connect to Supabase.', variant: 'destructive' });
+          console.error('Sync backend connection or initial fetch failed:', error);
+          setSyncStatus('disconnected');
       }
     };
 
     setupSubscriptions();
     
     return () => {
-        if (recordsChannel) supabaseClient.removeChannel(recordsChannel);
-        if (settingsChannel) supabaseClient.removeChannel(settingsChannel);
+        unsubscribers.forEach(unsubscribe => unsubscribe());
     };
-  }, [supabaseClient, processPending]);
+  }, [syncBackend, processPending, collectionSetters]);
   
+  // Push again when the next operation is due: failed ones back off exponentially, the rest are retried after the base delay
   useEffect(() => {
-    if (!supabaseClient || supabaseStatus !== 'connected' || pendingSync.length === 0) return;
-    
-    const interval = setInterval(() => {
-        processPending(supabaseClient);
-    }, 15000); 
-
-    return () => clearInterval(interval);
-  }, [supabaseClient, supabaseStatus, pendingSync, processPending]);
+    if (!syncBackend || syncStatus !== 'connected' || pendingSync.length === 0) return;
+
+    const now = Date.now();
+    const nextDueAt = Math.min(...pendingSync.map(op => {
+      const attempt = syncAttempts[getOperationId(op)];
+      return attempt ? new Date(attempt.nextRetryAt).getTime() : now + SYNC_RETRY_BASE_MS;
+    }));
+    const timeout = setTimeout(() => {
+        processPending(syncBackend);
+    }, Math.max(0, nextDueAt - now));
+
+    return () => clearTimeout(timeout);
+  }, [syncBackend, syncStatus, pendingSync, syncAttempts, processPending]);
   
-  const syncOrQueue = useCallback((op: PendingSyncOperation) => {
-    setPendingSync(prev => {
-        let newPending = [...prev];
-        const opId = (op as any).record?.id || op.id;
+  // Takes a batch for bulk changes, so the queue is rebuilt once rather than per operation
+  const syncOrQueue = useCallback((opOrOps: PendingSyncOperation | PendingSyncOperation[]) => {
+    const ops = Array.isArray(opOrOps) ? opOrOps : [opOrOps];
+    const opIds = new Set(ops.map(getOperationId));
+
+    // Remove any previous operations for the same record to avoid conflicts
+    setPendingSync(prev => [...prev.filter(p => !opIds.has(getOperationId(p))), ...ops]);
+    // A new operation starts without the failures of the one it replaces
+    setSyncAttempts(prev => {
+      const kept = Object.entries(prev).filter(([id]) => !opIds.has(id));
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept);
+    });
+  }, []);
 
-        // Remove any previous operations for the same record to avoid conflicts
-        newPending = newPending.filter(p => (((p as any).record?.id || p.id) !== opId));
+  // Makes the operation (or all of them) due now. Without a connection, connecting again is the retry.
+  const retrySync = useCallback((id?: string) => {
+    const now = new Date().toISOString();
+    setSyncAttempts(prev => Object.fromEntries(Object.entries(prev).map(([opId, attempt]) => [
+      opId,
+      !id || opId === id ? { ...attempt, nextRetryAt: now } : attempt,
+    ])));
+    if (syncStatus === 'disconnected') {
+      setSyncBackend(createSyncBackend(settings));
+    }
+  }, [syncStatus, settings]);
 
-        return [...newPending, op];
+  const discardPendingOperation = useCallback((id: string) => {
+    setPendingSync(prev => prev.filter(op => getOperationId(op) !== id));
+    setSyncAttempts(prev => {
+      const { [id]: discarded, ...rest } = prev;
+      return rest;
     });
   }, []);
 
+  // Tombstones past the trash retention are removed for good, here and in the cloud
+  useEffect(() => {
+    if (!isInitialized) return;
+    const purgeable = records.filter(r => isPurgeable(r));
+    if (purgeable.length === 0) return;
+    const purgedIds = new Set(purgeable.map(r => r.id));
+    setRecords(prev => prev.filter(r => !purgedIds.has(r.id)));
+    syncOrQueue(purgeable.map(r => ({ type: 'delete', id: r.id })));
+  }, [records, isInitialized, syncOrQueue]);
+
   const addRecord = useCallback((record: Omit<LoomRecord, 'id'>) => {
-    const newRecord: LoomRecord = { ...record, id: crypto.randomUUID() };
+    const newRecord = stampRecord({ ...record, id: crypto.randomUUID(), version: 0 });
     setRecords(prev => [...prev, newRecord]);
     syncOrQueue({ type: 'add', record: newRecord });
   }, [syncOrQueue]);
 
-  const updateRecord = useCallback((updatedRecord: LoomRecord) => {
+  const addRecords = useCallback((newRecords: Omit<LoomRecord, 'id'>[]) => {
+    const stamped = newRecords.map(record => stampRecord({ ...record, id: crypto.randomUUID(), version: 0 }));
+    setRecords(prev => [...prev, ...stamped]);
+    syncOrQueue(stamped.map(record => ({ type: 'add', record })));
+  }, [syncOrQueue]);
+
+  const updateRecord = useCallback((editedRecord: LoomRecord) => {
+    const updatedRecord = stampRecord(editedRecord);
     setRecords(prev => prev.map(r => r.id === updatedRecord.id ? updatedRecord : r));
     syncOrQueue({ type: 'update', record: updatedRecord });
   }, [syncOrQueue]);
 
+  // Deleting keeps a tombstone so devices that still hold the record learn about the delete.
   const deleteRecord = useCallback((id: string) => {
-    setRecords(prev => prev.filter(r => r.id !== id));
-    syncOrQueue({ type: 'delete', id });
+    const record = records.find(r => r.id === id);
+    if (!record) return;
+    const deletedRecord = stampRecord(markDeleted(record));
+    setRecords(prev => prev.map(r => r.id === id ? deletedRecord : r));
+    syncOrQueue({ type: 'update', record: deletedRecord });
+  }, [records, syncOrQueue]);
+
+  const restoreRecord = useCallback((id: string) => {
+    const record = records.find(r => r.id === id);
+    if (!record?.deletedAt) return;
+    const restoredRecord = stampRecord(markRestored(record));
+    setRecords(prev => prev.map(r => r.id === id ? restoredRecord : r));
+    syncOrQueue({ type: 'update', record: restoredRecord });
+  }, [records, syncOrQueue]);
+
+  const liveRecords = useMemo(() => records.filter(r => !r.deletedAt), [records]);
+
+  const getRecordsBy = useCallback(async (index: RecordIndex, value: string) => {
+    const matching = isLegacyRecordStorage.current
+      ? recordsRef.current.filter(r => r[index] === value)
+      : await getRecordsByIndex<LoomRecord>(index, value);
+    return matching.filter(r => !r.deletedAt);
+  }, []);
+  const deletedRecords = useMemo(() => records.filter(r => r.deletedAt), [records]);
+  
+  // Moves records, roster slots and downtime events from one shift code to another, e.g. after
+  // shift definitions change. A record whose machine already has one for that date on the new
+  // code stays where it is, and so does a roster slot the new code already fills.
+  // Returns the number of records migrated and the number left behind.
+  const remapRecordShift = useCallback((fromCode: string, toCode: string) => {
+    const taken = records.filter(r => !r.deletedAt);
+    const affected: LoomRecord[] = [];
+    let skipped = 0;
+    records.forEach(r => {
+      if (r.shift !== fromCode) return;
+      const moved = stampRecord({ ...r, shift: toCode });
+      if (!r.deletedAt) {
+        if (findDuplicateRecord(taken, moved, r.id)) {
+          skipped++;
+          return;
+        }
+        taken.push(moved);
+      }
+      affected.push(moved);
+    });
+
+    // Roster slot ids are made from the shift, so a moved slot gets a new id
+    const filledSlots = new Set(operatorAssignments.filter(a => a.shift === toCode).map(a => a.id));
+    const oldSlots = operatorAssignments.filter(a => a.shift === fromCode && !filledSlots.has(getAssignmentId(toCode, a.machineNo)));
+    const oldSlotIds = new Set(oldSlots.map(a => a.id));
+    const newSlots = oldSlots.map(a => ({ ...a, id: getAssignmentId(toCode, a.machineNo), shift: toCode }));
+    const events = downtimeEvents.filter(e => e.shift === fromCode).map(e => ({ ...e, shift: toCode }));
+    if (affected.length === 0 && oldSlots.length === 0 && events.length === 0) return { migrated: 0, skipped };
+
+    const affectedMap = new Map(affected.map(r => [r.id, r]));
+    const eventMap = new Map(events.map(e => [e.id, e]));
+    setRecords(prev => prev.map(r => affectedMap.get(r.id) ?? r));
+    setOperatorAssignments(prev => [...prev.filter(a => !oldSlotIds.has(a.id)), ...newSlots]);
+    setDowntimeEvents(prev => prev.map(e => eventMap.get(e.id) ?? e));
+    syncOrQueue([
+      ...affected.map((record): PendingSyncOperation => ({ type: 'update', record })),
+      ...oldSlots.map((slot): PendingSyncOperation => ({ type: 'delete-entity', collection: 'operatorAssignments', id: slot.id })),
+      ...newSlots.map((entity): PendingSyncOperation => ({ type: 'upsert-entity', collection: 'operatorAssignments', entity })),
+      ...events.map((entity): PendingSyncOperation => ({ type: 'upsert-entity', collection: 'downtimeEvents', entity })),
+    ]);
+    return { migrated: affected.length, skipped };
+  }, [records, operatorAssignments, downtimeEvents, syncOrQueue]);
+
+  const addMachine = useCallback((machine: Omit<Machine, 'id'>) => {
+    const newMachine: Machine = { ...machine, id: crypto.randomUUID() };
+    setMachines(prev => [...prev, newMachine]);
+    syncOrQueue({ type: 'upsert-entity', collection: 'machines', entity: newMachine });
+  }, [syncOrQueue]);
+
+  const updateMachine = useCallback((updatedMachine: Machine) => {
+    setMachines(prev => prev.map(m => m.id === updatedMachine.id ? updatedMachine : m));
+    syncOrQueue({ type: 'upsert-entity', collection: 'machines', entity: updatedMachine });
+  }, [syncOrQueue]);
+
+  const deleteMachine = useCallback((id: string) => {
+    setMachines(prev => prev.filter(m => m.id !== id));
+    syncOrQueue({ type: 'delete-entity', collection: 'machines', id });
   }, [syncOrQueue]);
   
+  const addQuality = useCallback((quality: Omit<Quality, 'id'>) => {
+    const newQuality: Quality = { ...quality, id: crypto.randomUUID() };
+    setQualities(prev => [...prev, newQuality]);
+    syncOrQueue({ type: 'upsert-entity', collection: 'qualities', entity: newQuality });
+  }, [syncOrQueue]);
+
+  const updateQuality = useCallback((updatedQuality: Quality) => {
+    setQualities(prev => prev.map(q => q.id === updatedQuality.id ? updatedQuality : q));
+    syncOrQueue({ type: 'upsert-entity', collection: 'qualities', entity: updatedQuality });
+  }, [syncOrQueue]);
+
+  const deleteQuality = useCallback((id: string) => {
+    setQualities(prev => prev.filter(q => q.id !== id));
+    syncOrQueue({ type: 'delete-entity', collection: 'qualities', id });
+  }, [syncOrQueue]);
+
+  const addOperator = useCallback((operator: Omit<Operator, 'id'>) => {
+    const newOperator: Operator = { ...operator, id: crypto.randomUUID() };
+    setOperators(prev => [...prev, newOperator]);
+    syncOrQueue({ type: 'upsert-entity', collection: 'operators', entity: newOperator });
+  }, [syncOrQueue]);
+
+  const updateOperator = useCallback((updatedOperator: Operator) => {
+    setOperators(prev => prev.map(o => o.id === updatedOperator.id ? updatedOperator : o));
+    syncOrQueue({ type: 'upsert-entity', collection: 'operators', entity: updatedOperator });
+  }, [syncOrQueue]);
+
+  const deleteOperator = useCallback((id: string) => {
+    setOperators(prev => prev.filter(o => o.id !== id));
+    syncOrQueue({ type: 'delete-entity', collection: 'operators', id });
+  }, [syncOrQueue]);
+
+  // Sets or clears the roster slot for a machine on a shift.
+  const assignOperator = useCallback((shift: string, machineNo: string, operatorId: string | undefined) => {
+    const id = getAssignmentId(shift, machineNo);
+    if (!operatorId) {
+      setOperatorAssignments(prev => prev.filter(a => a.id !== id));
+      syncOrQueue({ type: 'delete-entity', collection: 'operatorAssignments', id });
+      return;
+    }
+    const assignment: OperatorAssignment = { id, shift, machineNo, operatorId };
+    setOperatorAssignments(prev => [...prev.filter(a => a.id !== id), assignment]);
+    syncOrQueue({ type: 'upsert-entity', collection: 'operatorAssignments', entity: assignment });
+  }, [syncOrQueue]);
+
+  const addWageDeduction = useCallback((deduction: Omit<WageDeduction, 'id'>) => {
+    const newDeduction: WageDeduction = { ...deduction, id: crypto.randomUUID() };
+    setWageDeductions(prev => [...prev, newDeduction]);
+    syncOrQueue({ type: 'upsert-entity', collection: 'wageDeductions', entity: newDeduction });
+  }, [syncOrQueue]);
+
+  const deleteWageDeduction = useCallback((id: string) => {
+    setWageDeductions(prev => prev.filter(d => d.id !== id));
+    syncOrQueue({ type: 'delete-entity', collection: 'wageDeductions', id });
+  }, [syncOrQueue]);
+
+  const addDowntimeEvent = useCallback((event: Omit<DowntimeEvent, 'id'>) => {
+    const newEvent: DowntimeEvent = { ...event, id: crypto.randomUUID() };
+    setDowntimeEvents(prev => [...prev, newEvent]);
+    syncOrQueue({ type: 'upsert-entity', collection: 'downtimeEvents', entity: newEvent });
+  }, [syncOrQueue]);
+
+  const deleteDowntimeEvent = useCallback((id: string) => {
+    setDowntimeEvents(prev => prev.filter(e => e.id !== id));
+    syncOrQueue({ type: 'delete-entity', collection: 'downtimeEvents', id });
+  }, [syncOrQueue]);
+
+  const addBeam = useCallback((beam: Omit<Beam, 'id'>) => {
+    const newBeam: Beam = { ...beam, id: crypto.randomUUID() };
+    setBeams(prev => [...prev, newBeam]);
+    syncOrQueue({ type: 'upsert-entity', collection: 'beams', entity: newBeam });
+  }, [syncOrQueue]);
+
+  const updateBeam = useCallback((updatedBeam: Beam) => {
+    setBeams(prev => prev.map(b => b.id === updatedBeam.id ? updatedBeam : b));
+    syncOrQueue({ type: 'upsert-entity', collection: 'beams', entity: updatedBeam });
+  }, [syncOrQueue]);
+
+  const deleteBeam = useCallback((id: string) => {
+    setBeams(prev => prev.filter(b => b.id !== id));
+    syncOrQueue({ type: 'delete-entity', collection: 'beams', id });
+  }, [syncOrQueue]);
+
+  // Swaps in the copy that lost the automatic choice, as a fresh edit on top of both versions.
+  const resolveConflict = useCallback((id: string, keep: 'local' | 'remote') => {
+    const conflict = syncConflicts.find(c => c.id === id);
+    setSyncConflicts(prev => prev.filter(c => c.id !== id));
+    if (!conflict || conflict.applied === keep) return;
+
+    const kept = keep === 'local' ? conflict.local : conflict.remote;
+    const current = records.find(r => r.id === id);
+    const version = Math.max(current?.version ?? 0, conflict.local.version ?? 0, conflict.remote.version ?? 0);
+    const resolved = stampRecord({ ...kept, version });
+    setRecords(prev => prev.some(r => r.id === id) ? prev.map(r => r.id === id ? resolved : r) : [...prev, resolved]);
+    syncOrQueue({ type: 'update', record: resolved });
+  }, [syncConflicts, records, syncOrQueue]);
+
   const updateSettings = useCallback(async (newSettings: Partial<AppSettings>) => {
     const updatedSettings = { ...settings, ...newSettings };
     setSettings(updatedSettings);
     
-    if (supabaseClient && supabaseStatus === 'connected') {
+    if (syncBackend && syncStatus === 'connected') {
         try {
-            const settingsToSave = {
-                id: GLOBAL_SETTINGS_ID,
-                total_machines: updatedSettings.totalMachines,
-                low_efficiency_threshold: updatedSettings.lowEfficiencyThreshold,
-                whatsapp_number: updatedSettings.whatsAppNumber,
-                message_template: updatedSettings.messageTemplate,
-            };
-            
-            const { error } = await supabaseClient
-                .from('settings')
-                .upsert(settingsToSave, { onConflict: 'id' });
-
-            if (error) throw error;
+            await syncBackend.putSettings(settingsToRow(updatedSettings));
             toast({ title: 'Settings saved to cloud.' });
         } catch(e) {
-             console.error("Failed to save settings to Supabase:", e);
-             toast({ title: 'Cloud Save Failed', description: 'Settings saved locally, but failed to save to Supabase.', variant: 'destructive'});
+             console.error("Failed to save settings to the sync backend:", e);
+             toast({ title: 'Cloud Save Failed', description: 'Settings saved locally, but failed to save to the cloud.', variant: 'destructive'});
         }
     }
-  }, [settings, supabaseClient, supabaseStatus]);
+  }, [settings, syncBackend, syncStatus]);
   
+  // Writes a backup into the app and queues it for sync. Replace also removes whatever the backup does not contain;
+  // records go to the trash so the removal reaches other devices.
+  const restoreBackup = useCallback((backup: BackupFile, mode: RestoreMode) => {
+    const existingById = new Map(records.map(r => [r.id, r]));
+    let restoredRecords: LoomRecord[];
+    let removedRecords: LoomRecord[] = [];
+    if (mode === 'replace') {
+      const backupIds = new Set(backup.records.map(r => r.id));
+      restoredRecords = backup.records.map(r => ({ ...r, version: Math.max(r.version ?? 0, existingById.get(r.id)?.version ?? 0) }));
+      removedRecords = records.filter(r => !backupIds.has(r.id) && !r.deletedAt).map(markDeleted);
+    } else {
+      restoredRecords = planRecordMerge(records, backup.records).records;
+    }
+    const changedRecords = [...restoredRecords, ...removedRecords].map(stampRecord);
+    const changedMap = new Map(changedRecords.map(r => [r.id, r]));
+    setRecords(prev => [...prev.filter(r => !changedMap.has(r.id)), ...changedRecords]);
+    const ops: PendingSyncOperation[] = changedRecords.map(record => ({ type: existingById.has(record.id) ? 'update' : 'add', record }));
+
+    const currentCollections: { [K in SyncedCollection]: SyncedEntityMap[K][] } = {
+      machines, qualities, operators, operatorAssignments, wageDeductions, downtimeEvents, beams,
+    };
+    (Object.keys(SYNCED_COLLECTIONS) as SyncedCollection[]).forEach(collection => {
+      const incoming = backup[collection] as SyncedEntityMap[SyncedCollection][];
+      const setCollection = collectionSetters[collection] as React.Dispatch<React.SetStateAction<SyncedEntityMap[SyncedCollection][]>>;
+      if (mode === 'replace') {
+        const incomingIds = new Set(incoming.map(e => e.id));
+        currentCollections[collection]
+          .filter(e => !incomingIds.has(e.id))
+          .forEach(e => ops.push({ type: 'delete-entity', collection, id: e.id }));
+        setCollection(incoming);
+      } else {
+        setCollection(prev => mergeById(prev, incoming));
+      }
+      incoming.forEach(entity => ops.push({ type: 'upsert-entity', collection, entity }));
+    });
+    syncOrQueue(ops);
+
+    if (mode === 'replace') {
+      updateSettings(backup.settings);
+    }
+  }, [records, machines, qualities, operators, operatorAssignments, wageDeductions, downtimeEvents, beams, collectionSetters, syncOrQueue, updateSettings]);
+
   const deleteAllData = useCallback(async () => {
     setRecords([]);
     setPendingSync([]);
+    setSyncConflicts([]);
+    setSyncAttempts({});
+    // The next sync has to download every record again
+    saveToLocalStorage(SYNC_CURSORS_STORAGE_KEY, {});
     
-    if (supabaseClient && supabaseStatus === 'connected') {
+    if (syncBackend && syncStatus === 'connected') {
         try {
-            const { error } = await supabaseClient.from('loom_records').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-            if (error) throw error;
+            await syncBackend.deleteAll(RECORDS_TABLE);
             toast({ title: 'All records deleted from cloud.' });
         } catch (e) {
-            toast({ title: 'Cloud Delete Failed', description: 'Could not delete records from Supabase.', variant: 'destructive' });
+            toast({ title: 'Cloud Delete Failed', description: 'Could not delete records from the cloud.', variant: 'destructive' });
         }
     }
-  }, [supabaseClient, supabaseStatus]);
+  }, [syncBackend, syncStatus]);
 
   return (
     <AppContext.Provider value={{
-        records,
+        records: liveRecords,
+        recordsRevision,
+        getRecordsBy,
+        deletedRecords,
         settings,
+        machines,
+        qualities,
+        operators,
+        operatorAssignments,
+        wageDeductions,
+        downtimeEvents,
+        beams,
+        syncConflicts,
         addRecord,
+        addRecords,
         updateRecord,
         deleteRecord,
+        restoreRecord,
+        remapRecordShift,
+        addMachine,
+        updateMachine,
+        deleteMachine,
+        addQuality,
+        updateQuality,
+        deleteQuality,
+        addOperator,
+        updateOperator,
+        deleteOperator,
+        assignOperator,
+        addWageDeduction,
+        deleteWageDeduction,
+        addDowntimeEvent,
+        deleteDowntimeEvent,
+        addBeam,
+        updateBeam,
+        deleteBeam,
+        resolveConflict,
+        restoreBackup,
         updateSettings,
         deleteAllData,
         isInitialized,
-        supabaseStatus,
+        syncStatus,
         pendingSyncCount: pendingSync.length,
+        pendingSync,
+        syncAttempts,
+        retrySync,
+        discardPendingOperation,
     }}>
       {children}
     </AppContext.Provider>
@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useWatch, type UseFormReturn } from 'react-hook-form';
+import { format } from 'date-fns';
+import { useAppState } from '@/hooks/use-app-state';
+import { deriveShiftValues, findPreviousReading } from '@/lib/counters';
+import type { RecordFormValues } from '@/lib/record-form';
+
+// Keeps the shift's stops, weft and times in step with the counter reading being entered.
+// Pass the id of the record being edited so it is not taken as its own previous reading.
+export const useCounterDerivation = (form: UseFormReturn<RecordFormValues>, excludeId?: string) => {
+  const { records, settings } = useAppState();
+  const [date, shift, machineNo, reading] = useWatch({ control: form.control, name: ['date', 'shift', 'machineNo', 'counterReading'] });
+  const hasReading = !!reading;
+
+  const previousRecord = useMemo(() => {
+    if (!hasReading || !date || !shift || !machineNo) return undefined;
+    return findPreviousReading(records, settings.shifts, { date: format(date, 'yyyy-MM-dd'), shift, machineNo }, excludeId);
+  }, [hasReading, records, settings.shifts, date, shift, machineNo, excludeId]);
+
+  // Inputs hand back strings until the schema coerces them on submit
+  const readingWeft = Number(reading?.weftMeter) || 0;
+  const readingStops = Number(reading?.stops) || 0;
+  const readingTotal = reading?.total ?? '';
+  const readingRun = reading?.run ?? '';
+
+  const delta = useMemo(() => {
+    if (!hasReading) return undefined;
+    return deriveShiftValues(previousRecord?.counterReading, { weftMeter: readingWeft, stops: readingStops, total: readingTotal, run: readingRun });
+  }, [hasReading, previousRecord, readingWeft, readingStops, readingTotal, readingRun]);
+
+  useEffect(() => {
+    if (!delta) return;
+    form.setValue('weftMeter', delta.values.weftMeter);
+    form.setValue('stops', delta.values.stops);
+    form.setValue('total', delta.values.total);
+    form.setValue('run', delta.values.run);
+  }, [delta, form]);
+
+  return { previousRecord, delta };
+};
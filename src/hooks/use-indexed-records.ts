@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAppState } from './use-app-state';
+import type { RecordIndex } from '@/lib/storage';
+import type { LoomRecord } from '@/lib/types';
+
+const EMPTY: LoomRecord[] = [];
+
+// Records of one date, machine or shift, read through the storage index instead of scanning
+// every record. Looked up again whenever the saved records change.
+export const useIndexedRecords = (index: RecordIndex, value: string): LoomRecord[] => {
+  const { getRecordsBy, recordsRevision } = useAppState();
+  // Kept with the lookup it answers, so a new date or machine never shows the previous one's records
+  const [result, setResult] = useState<{ key: string; records: LoomRecord[] } | null>(null);
+  const key = `${index}:${value}`;
+
+  useEffect(() => {
+    if (recordsRevision === 0) return;
+    let cancelled = false;
+    getRecordsBy(index, value)
+      .then(records => {
+        if (!cancelled) setResult({ key, records });
+      })
+      .catch(error => console.error('Failed to look up records:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [getRecordsBy, index, value, key, recordsRevision]);
+
+  return result?.key === key ? result.records : EMPTY;
+};
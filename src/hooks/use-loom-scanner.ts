@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useState, useRef } from 'react';
+import { scanLoomDisplay, type ScanLoomDisplayOutput } from '@/ai/flows/scan-loom-display';
+import { toast } from '@/hooks/use-toast';
+
+export const useLoomScanner = (onResult: (result: ScanLoomDisplayOutput) => void) => {
+  const [isScanning, setIsScanning] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const performScan = async (photoDataUri: string) => {
+    setIsScanning(true);
+    try {
+      const result = await scanLoomDisplay({ photoDataUri });
+      onResult(result);
+    } catch (error) {
+      console.error('Scan failed:', error);
+      toast({ variant: 'destructive', title: 'Scan Failed', description: 'Could not extract data from the image.' });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      const photoDataUri = e.target?.result as string;
+      if (!photoDataUri) {
+        toast({ variant: 'destructive', title: 'Error', description: 'Could not read file.' });
+        return;
+      }
+      await performScan(photoDataUri);
+    };
+    reader.readAsDataURL(file);
+    // Reset file input
+    if(event.target) event.target.value = '';
+  };
+
+  const handleCapture = async (photoDataUri: string) => {
+    setShowCamera(false);
+    await performScan(photoDataUri);
+  };
+
+  return {
+    isScanning,
+    showCamera,
+    setShowCamera,
+    fileInputRef,
+    handleFileChange,
+    handleCapture,
+  };
+};
@@ -0,0 +1,142 @@
+import { format, parseISO, startOfWeek } from 'date-fns';
+import type { CalculatedLoomRecord } from './types';
+import { calculateEfficiency, calculateHr, timeToSeconds } from './calculations';
+import { compareMachineNo } from './machines';
+
+export type AggregateDimension = 'date' | 'week' | 'month' | 'shift' | 'machine' | 'quality' | 'operator';
+
+export interface Aggregate {
+  shifts: number; // records counted
+  runSeconds: number;
+  totalSeconds: number;
+  efficiency: number; // run over total time, so long shifts weigh more than short ones
+  weftMeter: number;
+  stops: number;
+  stopsPerHour: number; // per hour of running time
+  hr: number; // weft per hour of running time
+  lossPrd: number;
+  expectedPrd: number;
+}
+
+export interface AggregateGroup extends Aggregate {
+  key: string; // getGroupKey of the dimension values; read the values themselves from values
+  values: Partial<Record<AggregateDimension, string>>;
+  records: CalculatedLoomRecord[];
+}
+
+export const EMPTY_AGGREGATE: Aggregate = {
+  shifts: 0, runSeconds: 0, totalSeconds: 0, efficiency: 0, weftMeter: 0,
+  stops: 0, stopsPerHour: 0, hr: 0, lossPrd: 0, expectedPrd: 0,
+};
+
+// Parsing HH:MM:SS dominates on large ranges, so each record is parsed once
+const durationCache = new WeakMap<CalculatedLoomRecord, { run: number; total: number }>();
+
+const getDurations = (record: CalculatedLoomRecord) => {
+  let durations = durationCache.get(record);
+  if (!durations) {
+    durations = { run: timeToSeconds(record.run), total: timeToSeconds(record.total) };
+    durationCache.set(record, durations);
+  }
+  return durations;
+};
+
+// Weeks start on Monday and are keyed by that Monday's date
+const getWeekKey = (date: string) => format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+const DIMENSION_VALUES: Record<AggregateDimension, (r: CalculatedLoomRecord) => string> = {
+  date: r => r.date,
+  week: r => getWeekKey(r.date),
+  month: r => r.date.slice(0, 7),
+  shift: r => r.shift,
+  machine: r => r.machineNo,
+  quality: r => r.qualityId ?? '', // empty for records without a quality
+  operator: r => r.operatorId ?? '', // empty for records without an operator
+};
+
+// Encoded as a JSON tuple so values containing any separator cannot collide
+export const getGroupKey = (values: string[]): string => JSON.stringify(values);
+
+export const aggregateRecords = (records: CalculatedLoomRecord[]): Aggregate => {
+  let runSeconds = 0;
+  let totalSeconds = 0;
+  let weftMeter = 0;
+  let stops = 0;
+  let lossPrd = 0;
+  let expectedPrd = 0;
+  records.forEach(r => {
+    const durations = getDurations(r);
+    runSeconds += durations.run;
+    totalSeconds += durations.total;
+    weftMeter += r.weftMeter;
+    stops += r.stops;
+    lossPrd += r.lossPrd;
+    expectedPrd += r.expectedPrd;
+  });
+  return {
+    shifts: records.length,
+    runSeconds,
+    totalSeconds,
+    efficiency: calculateEfficiency(runSeconds, totalSeconds),
+    weftMeter,
+    stops,
+    stopsPerHour: runSeconds > 0 ? stops / (runSeconds / 3600) : 0,
+    hr: calculateHr(weftMeter, runSeconds),
+    lossPrd,
+    expectedPrd,
+  };
+};
+
+// Indexes are kept per records array and dimension list. Callers pass arrays from useMemo,
+// so the same array is only grouped once however many lookups are made against it.
+const indexCache = new WeakMap<CalculatedLoomRecord[], Map<string, Map<string, AggregateGroup>>>();
+
+// Groups keyed by getGroupKey of the dimension values, in the order the dimensions are given.
+export const indexRecords = (records: CalculatedLoomRecord[], dimensions: AggregateDimension[]): Map<string, AggregateGroup> => {
+  const cacheKey = dimensions.join(',');
+  let indexes = indexCache.get(records);
+  const cached = indexes?.get(cacheKey);
+  if (cached) return cached;
+
+  const buckets = new Map<string, { values: AggregateGroup['values']; records: CalculatedLoomRecord[] }>();
+  records.forEach(r => {
+    const values = dimensions.map(dimension => DIMENSION_VALUES[dimension](r));
+    const key = getGroupKey(values);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { values: Object.fromEntries(dimensions.map((dimension, i) => [dimension, values[i]])), records: [] };
+      buckets.set(key, bucket);
+    }
+    bucket.records.push(r);
+  });
+
+  const index = new Map<string, AggregateGroup>();
+  buckets.forEach((bucket, key) => index.set(key, { key, ...bucket, ...aggregateRecords(bucket.records) }));
+
+  if (!indexes) {
+    indexes = new Map();
+    indexCache.set(records, indexes);
+  }
+  indexes.set(cacheKey, index);
+  return index;
+};
+
+// Looks up one group, or an empty aggregate when no record matches.
+export const getAggregate = (index: Map<string, AggregateGroup>, values: string[]): Aggregate => {
+  return index.get(getGroupKey(values)) ?? EMPTY_AGGREGATE;
+};
+
+const compareValues = (dimension: AggregateDimension, a = '', b = '') => {
+  return dimension === 'machine' ? compareMachineNo(a, b) : a.localeCompare(b);
+};
+
+// Groups sorted by each dimension in turn: dates and months oldest first, machines in number order.
+export const groupRecords = (records: CalculatedLoomRecord[], dimensions: AggregateDimension[]): AggregateGroup[] => {
+  return Array.from(indexRecords(records, dimensions).values()).sort((a, b) => {
+    for (const dimension of dimensions) {
+      const order = compareValues(dimension, a.values[dimension], b.values[dimension]);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+};
@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import { DEFAULT_SETTINGS, type AppSettings, type LoomRecord, type Machine, type Quality, type Operator, type OperatorAssignment, type WageDeduction, type DowntimeEvent, type Beam } from './types';
+import type { PendingSyncOperation } from './sync-queue';
+import type { SyncedCollection } from './supabase-mappers';
+import { findDuplicateRecord } from './record-form';
+
+// Bump when the file layout changes in a way older versions cannot read
+export const BACKUP_VERSION = 1;
+const BACKUP_APP = 'laxmi-shree';
+
+// Keys, URLs and the sync choice belong to the device, not to the data
+export type BackupSettings = Omit<AppSettings, 'supabaseUrl' | 'supabaseKey' | 'geminiApiKey' | 'syncBackend' | 'syncToken'>;
+
+export interface BackupData {
+  records: LoomRecord[];
+  settings: BackupSettings;
+  machines: Machine[];
+  qualities: Quality[];
+  operators: Operator[];
+  operatorAssignments: OperatorAssignment[];
+  wageDeductions: WageDeduction[];
+  downtimeEvents: DowntimeEvent[];
+  beams: Beam[];
+  pendingSync: PendingSyncOperation[]; // for reference; the changes themselves are already in the data above
+}
+
+export interface BackupFile extends BackupData {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: string; // ISO
+}
+
+export type BackupCollection = Exclude<keyof BackupData, 'settings' | 'pendingSync'>;
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  records: 'Records',
+  machines: 'Machines',
+  qualities: 'Qualities',
+  operators: 'Operators',
+  operatorAssignments: 'Roster slots',
+  wageDeductions: 'Wage deductions',
+  downtimeEvents: 'Downtime events',
+  beams: 'Beams',
+};
+
+export const createBackup = (data: Omit<BackupData, 'settings'> & { settings: AppSettings }): BackupFile => {
+  const { supabaseUrl, supabaseKey, geminiApiKey, syncBackend, syncToken, ...settings } = data.settings;
+  return {
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+    settings,
+  };
+};
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const clockSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+const durationSchema = z.string().regex(/^\d+:[0-5]\d:[0-5]\d$/);
+const countSchema = z.number().min(0);
+
+// Every collection is checked against its model in types.ts, since restoring writes it as is.
+// Defaults match the row mappers, so files from before a field existed still load.
+const recordSchema = z.object({
+  id: z.string().min(1),
+  date: dateSchema,
+  time: z.string(),
+  shift: z.string().min(1),
+  machineNo: z.string().min(1),
+  stops: countSchema,
+  stopBreakdown: z.object({
+    warp: countSchema.optional(),
+    weft: countSchema.optional(),
+    leno: countSchema.optional(),
+    mechanical: countSchema.optional(),
+    electrical: countSchema.optional(),
+    other: countSchema.optional(),
+  }).optional(),
+  weftMeter: countSchema,
+  total: durationSchema,
+  run: durationSchema,
+  qualityId: z.string().optional(),
+  operatorId: z.string().optional(),
+  counterReading: z.object({
+    weftMeter: countSchema,
+    stops: countSchema,
+    total: durationSchema,
+    run: durationSchema,
+  }).optional(),
+  version: z.number().int().min(0).optional(),
+  updatedAt: z.string().optional(),
+  deletedAt: z.string().optional(),
+  user_id: z.string().optional(),
+});
+
+const machineSchema = z.object({
+  id: z.string().min(1),
+  machineNo: z.string().min(1),
+  shed: z.string().default(''),
+  makeModel: z.string().default(''),
+  reedWidth: countSchema.default(0),
+  active: z.boolean().default(true),
+  commissionedOn: z.string().default(''),
+  qualityId: z.string().optional(),
+});
+
+const qualitySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  picksPerInch: countSchema.default(0),
+  reed: countSchema.default(0),
+  width: countSchema.default(0),
+  expectedRpm: countSchema.default(0),
+  targetEfficiency: countSchema.default(0),
+  wageRate: countSchema.default(0),
+  wageBasis: z.enum(['meter', 'kpick']).default('meter'),
+  active: z.boolean().default(true),
+});
+
+const operatorSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  phone: z.string().default(''),
+  active: z.boolean().default(true),
+});
+
+const operatorAssignmentSchema = z.object({
+  id: z.string().min(1),
+  shift: z.string().min(1),
+  machineNo: z.string().min(1),
+  operatorId: z.string().min(1),
+});
+
+const wageDeductionSchema = z.object({
+  id: z.string().min(1),
+  operatorId: z.string().min(1),
+  date: dateSchema,
+  amount: z.number(),
+  reason: z.string().default(''),
+});
+
+const downtimeEventSchema = z.object({
+  id: z.string().min(1),
+  date: dateSchema,
+  shift: z.string().min(1),
+  machineNo: z.string().min(1),
+  startTime: clockSchema,
+  endTime: clockSchema,
+  reason: z.enum(['beam-change', 'yarn-shortage', 'power-cut', 'repair', 'no-weaver', 'other']).default('other'),
+  note: z.string().default(''),
+});
+
+const beamSchema = z.object({
+  id: z.string().min(1),
+  beamNo: z.string().min(1),
+  machineNo: z.string().min(1),
+  qualityId: z.string().optional(),
+  length: countSchema.default(0),
+  gaitingDate: dateSchema,
+  finishedDate: dateSchema.optional(),
+});
+
+const settingsSchema = z.object({
+  id: z.string().optional(),
+  totalMachines: z.number().int().min(0),
+  lowEfficiencyThreshold: z.number().min(0).max(100),
+  whatsAppNumber: z.string().default(''),
+  messageTemplate: z.string().default(DEFAULT_SETTINGS.messageTemplate),
+  shifts: z.array(z.object({
+    code: z.string().min(1),
+    name: z.string().min(1),
+    startTime: clockSchema,
+    endTime: clockSchema,
+    scannerLetter: z.string().max(1).default(''),
+  })).min(1).refine(shifts => new Set(shifts.map(s => s.code)).size === shifts.length, 'Shift codes must be unique.'),
+  readingMode: z.enum(['shift', 'cumulative']).default(DEFAULT_SETTINGS.readingMode),
+  payroll: z.object({
+    defaultRatePerMeter: countSchema,
+    bonusSlabs: z.array(z.object({ minEfficiency: z.number().min(0).max(100), amount: countSchema })),
+  }).default(DEFAULT_SETTINGS.payroll),
+  user_id: z.string().optional(),
+});
+
+const entitySchemas = {
+  machines: machineSchema,
+  qualities: qualitySchema,
+  operators: operatorSchema,
+  operatorAssignments: operatorAssignmentSchema,
+  wageDeductions: wageDeductionSchema,
+  downtimeEvents: downtimeEventSchema,
+  beams: beamSchema,
+};
+
+const upsertEntitySchema = <K extends SyncedCollection>(collection: K) => z.object({
+  type: z.literal('upsert-entity'),
+  collection: z.literal(collection),
+  entity: entitySchemas[collection],
+});
+
+const pendingSyncSchema = z.union([
+  z.object({ type: z.enum(['add', 'update']), record: recordSchema }),
+  z.object({ type: z.literal('delete'), id: z.string() }),
+  upsertEntitySchema('machines'),
+  upsertEntitySchema('qualities'),
+  upsertEntitySchema('operators'),
+  upsertEntitySchema('operatorAssignments'),
+  upsertEntitySchema('wageDeductions'),
+  upsertEntitySchema('downtimeEvents'),
+  upsertEntitySchema('beams'),
+  z.object({ type: z.literal('delete-entity'), collection: z.enum(['machines', 'qualities', 'operators', 'operatorAssignments', 'wageDeductions', 'downtimeEvents', 'beams']), id: z.string() }),
+]);
+
+const backupSchema = z.object({
+  app: z.literal(BACKUP_APP),
+  version: z.number().int().min(1).max(BACKUP_VERSION, 'This backup was made by a newer version of the app.'),
+  exportedAt: z.string(),
+  records: z.array(recordSchema),
+  settings: settingsSchema,
+  machines: z.array(machineSchema),
+  qualities: z.array(qualitySchema),
+  operators: z.array(operatorSchema),
+  operatorAssignments: z.array(operatorAssignmentSchema),
+  wageDeductions: z.array(wageDeductionSchema),
+  downtimeEvents: z.array(downtimeEventSchema),
+  beams: z.array(beamSchema),
+  pendingSync: z.array(pendingSyncSchema).default([]),
+});
+
+export type ParseBackupResult = { success: true; backup: BackupFile } | { success: false; error: string };
+
+export const parseBackup = (text: string): ParseBackupResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON.' };
+  }
+  const result = backupSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { success: false, error: `${issue.path.join('.') || 'File'}: ${issue.message}` };
+  }
+  return { success: true, backup: result.data };
+};
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RecordMergePlan {
+  records: LoomRecord[]; // records from the backup to write, in their final form
+  added: number;
+  updated: number; // same id on this device, the backup copy is newer
+  kept: number; // same id on this device, the local copy is the same or newer
+  duplicates: number; // another id already holds the machine's shift
+}
+
+// Records with an id already on this device keep whichever copy was edited last.
+// A backup record for a shift that another local record already covers is left out rather than duplicated.
+export const planRecordMerge = (existing: LoomRecord[], incoming: LoomRecord[]): RecordMergePlan => {
+  const existingById = new Map(existing.map(r => [r.id, r]));
+  const liveRecords = existing.filter(r => !r.deletedAt);
+  const plan: RecordMergePlan = { records: [], added: 0, updated: 0, kept: 0, duplicates: 0 };
+
+  incoming.forEach(record => {
+    const local = existingById.get(record.id);
+    if (local) {
+      if ((record.updatedAt ?? '') > (local.updatedAt ?? '')) {
+        // Placed on top of the local version so sync treats it as the latest edit
+        plan.records.push({ ...record, version: Math.max(record.version ?? 0, local.version ?? 0) });
+        plan.updated++;
+      } else {
+        plan.kept++;
+      }
+      return;
+    }
+    if (!record.deletedAt && findDuplicateRecord(liveRecords, record)) {
+      plan.duplicates++;
+      return;
+    }
+    plan.records.push(record);
+    plan.added++;
+  });
+
+  return plan;
+};
@@ -0,0 +1,73 @@
+import type { Beam, LoomRecord } from './types';
+import { compareMachineNo } from './machines';
+
+// Recent shifts averaged to estimate how fast the current beam runs down
+const FORECAST_SHIFTS = 6;
+
+// Newest beam first
+export const sortBeams = (beams: Beam[]): Beam[] => {
+  return [...beams].sort((a, b) => b.gaitingDate.localeCompare(a.gaitingDate) || b.beamNo.localeCompare(a.beamNo, undefined, { numeric: true }));
+};
+
+const getNextBeam = (beam: Beam, beams: Beam[]): Beam | undefined => {
+  return beams
+    .filter(b => b.machineNo === beam.machineNo && b.gaitingDate > beam.gaitingDate)
+    .sort((a, b) => a.gaitingDate.localeCompare(b.gaitingDate))[0];
+};
+
+export const isBeamRunning = (beam: Beam, beams: Beam[]): boolean => {
+  return !beam.finishedDate && !getNextBeam(beam, beams);
+};
+
+// Records woven off the beam: from gaiting until the next beam goes on or it is finished.
+export const getBeamRecords = (beam: Beam, beams: Beam[], records: LoomRecord[]): LoomRecord[] => {
+  const nextBeam = getNextBeam(beam, beams);
+  return records.filter(r =>
+    r.machineNo === beam.machineNo &&
+    r.date >= beam.gaitingDate &&
+    (!nextBeam || r.date < nextBeam.gaitingDate) &&
+    (!beam.finishedDate || r.date <= beam.finishedDate)
+  );
+};
+
+export interface BeamStatus {
+  beam: Beam;
+  running: boolean;
+  shifts: number;
+  consumed: number; // meters
+  remaining: number; // meters, never below 0
+  avgPerShift: number; // meters over the machine's recent shifts
+  shiftsLeft: number | null; // null when the machine has no recent production to forecast from
+}
+
+export const getBeamStatus = (beam: Beam, beams: Beam[], records: LoomRecord[]): BeamStatus => {
+  const beamRecords = getBeamRecords(beam, beams, records);
+  const consumed = beamRecords.reduce((sum, r) => sum + r.weftMeter, 0);
+  const remaining = Math.max(0, beam.length - consumed);
+
+  const recentRecords = records
+    .filter(r => r.machineNo === beam.machineNo)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.time.localeCompare(a.time))
+    .slice(0, FORECAST_SHIFTS);
+  const avgPerShift = recentRecords.length > 0
+    ? recentRecords.reduce((sum, r) => sum + r.weftMeter, 0) / recentRecords.length
+    : 0;
+
+  return {
+    beam,
+    running: isBeamRunning(beam, beams),
+    shifts: beamRecords.length,
+    consumed,
+    remaining,
+    avgPerShift,
+    shiftsLeft: avgPerShift > 0 ? Math.ceil(remaining / avgPerShift) : null,
+  };
+};
+
+// Running beams, the ones closest to ending first
+export const getBeamForecast = (beams: Beam[], records: LoomRecord[]): BeamStatus[] => {
+  return beams
+    .filter(beam => isBeamRunning(beam, beams))
+    .map(beam => getBeamStatus(beam, beams, records))
+    .sort((a, b) => (a.shiftsLeft ?? Infinity) - (b.shiftsLeft ?? Infinity) || compareMachineNo(a.beam.machineNo, b.beam.machineNo));
+};
@@ -1,4 +1,4 @@
-import type { LoomRecord, CalculatedLoomRecord } from './types';
+import type { LoomRecord, CalculatedLoomRecord, Quality } from './types';
 
 export const timeToSeconds = (time: string): number => {
   if (!time || typeof time !== 'string') return 0;
@@ -39,7 +39,14 @@ export const calculateLossPrd = (downtimeSeconds: number, hr: number): number =>
     return downtimeHours * hr;
 }
 
-export const processRecord = (record: LoomRecord): CalculatedLoomRecord => {
+// Meters of cloth a quality should weave in the given time at its target efficiency.
+export const calculateExpectedPrd = (quality: Quality, totalSeconds: number): number => {
+  if (quality.picksPerInch <= 0 || totalSeconds <= 0) return 0;
+  const picks = quality.expectedRpm * (totalSeconds / 60) * (quality.targetEfficiency / 100);
+  return (picks / quality.picksPerInch) * 0.0254;
+};
+
+export const processRecord = (record: LoomRecord, quality?: Quality): CalculatedLoomRecord => {
   const runSeconds = timeToSeconds(record.run);
   const totalSeconds = timeToSeconds(record.total);
   const downtimeSeconds = totalSeconds - runSeconds;
@@ -48,6 +55,8 @@ export const processRecord = (record: LoomRecord): CalculatedLoomRecord => {
   const hr = calculateHr(record.weftMeter, runSeconds);
   const diff = secondsToTime(downtimeSeconds);
   const lossPrd = calculateLossPrd(downtimeSeconds, hr);
+  const expectedPrd = quality ? calculateExpectedPrd(quality, totalSeconds) : 0;
+  const prdAchievement = expectedPrd > 0 ? (record.weftMeter / expectedPrd) * 100 : 0;
 
   return {
     ...record,
@@ -55,5 +64,7 @@ export const processRecord = (record: LoomRecord): CalculatedLoomRecord => {
     hr,
     diff,
     lossPrd,
+    expectedPrd,
+    prdAchievement,
   };
 };
@@ -0,0 +1,51 @@
+import type { LoomRecord } from './types';
+
+// Marks a record as a new edit of the version it was made from.
+export const stampRecord = (record: LoomRecord): LoomRecord => ({
+  ...record,
+  version: (record.version ?? 0) + 1,
+  updatedAt: new Date().toISOString(),
+});
+
+// What was entered, leaving out bookkeeping that differs between copies of the same data.
+const getRecordContent = (record: LoomRecord): string => {
+  const { id, version, updatedAt, user_id, ...content } = record;
+  return JSON.stringify(content, Object.keys(content).sort());
+};
+
+export const hasSameContent = (a: LoomRecord, b: LoomRecord): boolean => getRecordContent(a) === getRecordContent(b);
+
+// The cloud moved past the version a local edit was based on.
+export const isConcurrentEdit = (local: LoomRecord, remote: LoomRecord): boolean => {
+  return (remote.version ?? 0) >= (local.version ?? 0) && !hasSameContent(local, remote);
+};
+
+// Last writer wins; on a tie the cloud copy is kept.
+export const pickNewer = (local: LoomRecord, remote: LoomRecord): 'local' | 'remote' => {
+  return (local.updatedAt ?? '') > (remote.updatedAt ?? '') ? 'local' : 'remote';
+};
+
+// Remote copies win, except for records with edits still waiting to be pushed;
+// those are checked against the cloud when they are pushed.
+export const mergeRecords = (local: LoomRecord[], remote: LoomRecord[], pendingIds: Set<string>): LoomRecord[] => {
+  const merged = new Map(local.map(record => [record.id, record]));
+  remote.forEach(record => {
+    if (!pendingIds.has(record.id)) merged.set(record.id, record);
+  });
+  return Array.from(merged.values());
+};
+
+export const RECORD_FIELD_LABELS: { key: keyof LoomRecord; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'time', label: 'Time' },
+  { key: 'shift', label: 'Shift' },
+  { key: 'machineNo', label: 'M/C' },
+  { key: 'stops', label: 'Stops' },
+  { key: 'weftMeter', label: 'Weft(m)' },
+  { key: 'total', label: 'Total' },
+  { key: 'run', label: 'Run' },
+  { key: 'qualityId', label: 'Quality' },
+  { key: 'operatorId', label: 'Operator' },
+  { key: 'updatedAt', label: 'Edited' },
+  { key: 'deletedAt', label: 'Deleted' },
+];
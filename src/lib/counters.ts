@@ -0,0 +1,97 @@
+import type { CounterReading, LoomRecord, ShiftDefinition } from './types';
+import { secondsToTime, timeToSeconds } from './calculations';
+
+export type CounterField = keyof CounterReading;
+
+export const COUNTER_FIELD_LABELS: Record<CounterField, string> = {
+  weftMeter: 'Cloth length',
+  stops: 'All stops',
+  total: 'Total time',
+  run: 'Run time',
+};
+
+export const EMPTY_COUNTER_READING: CounterReading = { weftMeter: 0, stops: 0, total: '00:00:00', run: '00:00:00' };
+
+type ReadingKey = Pick<LoomRecord, 'date' | 'shift' | 'machineNo'>;
+
+// Orders a machine's shifts by date, then by the shift's place in the day.
+const compareShiftOrder = (shifts: ShiftDefinition[], a: ReadingKey, b: ReadingKey): number => {
+  const shiftIndex = (code: string) => shifts.findIndex(s => s.code === code);
+  return a.date.localeCompare(b.date) || shiftIndex(a.shift) - shiftIndex(b.shift);
+};
+
+const getMachineReadings = (records: LoomRecord[], machineNo: string, excludeId?: string) => {
+  return records.filter(r => r.id !== excludeId && r.machineNo === machineNo && r.counterReading);
+};
+
+// Latest record with a counter reading on the same machine before the given shift.
+export const findPreviousReading = (
+  records: LoomRecord[],
+  shifts: ShiftDefinition[],
+  key: ReadingKey,
+  excludeId?: string
+): LoomRecord | undefined => {
+  return getMachineReadings(records, key.machineNo, excludeId)
+    .filter(r => compareShiftOrder(shifts, r, key) < 0)
+    .sort((a, b) => compareShiftOrder(shifts, b, a))[0];
+};
+
+export const findNextReading = (
+  records: LoomRecord[],
+  shifts: ShiftDefinition[],
+  key: ReadingKey,
+  excludeId?: string
+): LoomRecord | undefined => {
+  return getMachineReadings(records, key.machineNo, excludeId)
+    .filter(r => compareShiftOrder(shifts, r, key) > 0)
+    .sort((a, b) => compareShiftOrder(shifts, a, b))[0];
+};
+
+export interface CounterDelta {
+  values: Pick<LoomRecord, 'weftMeter' | 'stops' | 'total' | 'run'>;
+  reset: boolean; // the counters were cleared since the previous reading, so the reading is the shift's value
+  negativeFields: CounterField[]; // counters that went down without a reset, usually a misread display
+}
+
+// Total time only ever counts up, so it going down means the counters were reset.
+// Without a previous reading the counters are taken as they are.
+export const deriveShiftValues = (previous: CounterReading | undefined, current: CounterReading): CounterDelta => {
+  const reset = !!previous && timeToSeconds(current.total) < timeToSeconds(previous.total);
+  if (!previous || reset) {
+    return { values: { ...current }, reset, negativeFields: [] };
+  }
+
+  const weftMeter = Math.round((current.weftMeter - previous.weftMeter) * 100) / 100;
+  const stops = current.stops - previous.stops;
+  const totalSeconds = timeToSeconds(current.total) - timeToSeconds(previous.total);
+  const runSeconds = timeToSeconds(current.run) - timeToSeconds(previous.run);
+
+  const negativeFields: CounterField[] = [];
+  if (weftMeter < 0) negativeFields.push('weftMeter');
+  if (stops < 0) negativeFields.push('stops');
+  if (runSeconds < 0) negativeFields.push('run');
+
+  return {
+    values: { weftMeter, stops, total: secondsToTime(totalSeconds), run: secondsToTime(runSeconds) },
+    reset,
+    negativeFields,
+  };
+};
+
+// A reading saved before an existing one changes what the later shift wove.
+// Returns the later record with its values derived again, or undefined when nothing changes or it cannot be derived.
+export const rederiveNextRecord = (
+  records: LoomRecord[],
+  shifts: ShiftDefinition[],
+  saved: Omit<LoomRecord, 'id'> & { id?: string }
+): LoomRecord | undefined => {
+  if (!saved.counterReading) return undefined;
+  const next = findNextReading(records, shifts, saved, saved.id);
+  if (!next?.counterReading) return undefined;
+
+  const delta = deriveShiftValues(saved.counterReading, next.counterReading);
+  if (delta.negativeFields.length > 0) return undefined;
+  const { values } = delta;
+  const isUnchanged = values.weftMeter === next.weftMeter && values.stops === next.stops && values.total === next.total && values.run === next.run;
+  return isUnchanged ? undefined : { ...next, ...values };
+};
@@ -0,0 +1,56 @@
+import type { LoomRecord, Machine } from './types';
+import { getExpectedMachineNumbers } from './machines';
+
+export interface ShiftCoverage {
+  date: string; // YYYY-MM-DD
+  shift: string; // ShiftDefinition code
+  expected: number;
+  recorded: number;
+  missing: string[]; // machine numbers without a record
+}
+
+export const getShiftCoverage = (
+  records: LoomRecord[],
+  machineNumbers: string[],
+  date: string,
+  shift: string
+): ShiftCoverage => {
+  const recordedMachines = new Set(
+    records.filter(r => r.date === date && r.shift === shift).map(r => r.machineNo)
+  );
+  const missing = machineNumbers.filter(machineNo => !recordedMachines.has(machineNo));
+  return {
+    date,
+    shift,
+    expected: machineNumbers.length,
+    recorded: machineNumbers.length - missing.length,
+    missing,
+  };
+};
+
+// Coverage for every date and shift, newest date first. Only machines that were
+// active and commissioned on a date are expected to have a record for it.
+export const getCoverageForDates = (
+  records: LoomRecord[],
+  machines: Machine[],
+  dates: string[],
+  shiftCodes: string[]
+): ShiftCoverage[] => {
+  return [...dates]
+    .sort((a, b) => b.localeCompare(a))
+    .flatMap(date => {
+      const machineNumbers = getExpectedMachineNumbers(machines, date);
+      return shiftCodes.map(shift => getShiftCoverage(records, machineNumbers, date, shift));
+    });
+};
+
+export const buildMissingEntriesMessage = (
+  coverage: ShiftCoverage[],
+  formatDate: (date: string) => string,
+  formatShift: (code: string) => string
+): string => {
+  const lines = coverage
+    .filter(c => c.missing.length > 0)
+    .map(c => `${formatDate(c.date)} (${formatShift(c.shift)}): *${c.missing.length} missing*\nM/C ${c.missing.join(', ')}`);
+  return `Missing Loom Entries:\n\n${lines.join('\n\n')}`;
+};
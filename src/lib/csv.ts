@@ -0,0 +1,67 @@
+import { downloadBlob } from './download';
+
+type CsvCell = string | number | null | undefined;
+
+const escapeCell = (cell: CsvCell): string => {
+  const value = cell === null || cell === undefined ? '' : String(cell);
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: CsvCell[][]): string => {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+};
+
+export const downloadCsv = (csv: string, fileName: string) => {
+  // The BOM makes Excel open the file as UTF-8
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), fileName);
+};
+
+// A row read from a file, numbered as a spreadsheet app shows it, so blank rows still count
+export interface SheetRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+// Reads quoted cells with embedded commas, quotes and line breaks. Blank lines are dropped.
+export const parseCsv = (text: string): SheetRow[] => {
+  const rows: SheetRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let rowNumber = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    rowNumber++;
+    if (row.some(value => value.trim() !== '')) rows.push({ rowNumber, cells: row });
+    row = [];
+    cell = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
@@ -0,0 +1,66 @@
+import type { CalculatedLoomRecord, DowntimeEvent, DowntimeReason, LoomRecord } from './types';
+import { timeToSeconds } from './calculations';
+
+export const DOWNTIME_REASONS: { key: DowntimeReason; label: string }[] = [
+  { key: 'beam-change', label: 'Beam Change' },
+  { key: 'yarn-shortage', label: 'Yarn Shortage' },
+  { key: 'power-cut', label: 'Power Cut' },
+  { key: 'repair', label: 'Repair' },
+  { key: 'no-weaver', label: 'No Weaver' },
+  { key: 'other', label: 'Other' },
+];
+
+export const getDowntimeReasonLabel = (reason: DowntimeReason): string => {
+  return DOWNTIME_REASONS.find(r => r.key === reason)?.label ?? reason;
+};
+
+// Events ending before they start ran past midnight.
+export const getDowntimeSeconds = (event: Pick<DowntimeEvent, 'startTime' | 'endTime'>): number => {
+  const start = timeToSeconds(event.startTime);
+  const end = timeToSeconds(event.endTime);
+  return end >= start ? end - start : end + 24 * 3600 - start;
+};
+
+export const getEventsForShift = (
+  events: DowntimeEvent[],
+  key: Pick<LoomRecord, 'date' | 'shift' | 'machineNo'>
+): DowntimeEvent[] => {
+  return events.filter(e => e.date === key.date && e.shift === key.shift && e.machineNo === key.machineNo);
+};
+
+export interface DowntimeReconciliation {
+  loggedSeconds: number;
+  diffSeconds: number; // Total - Run from the record, 0 without a record
+  unexplainedSeconds: number; // diff not covered by logged events; negative when more was logged than lost
+}
+
+export const reconcileDowntime = (record: LoomRecord | undefined, events: DowntimeEvent[]): DowntimeReconciliation => {
+  const loggedSeconds = events.reduce((sum, e) => sum + getDowntimeSeconds(e), 0);
+  const diffSeconds = record ? Math.max(0, timeToSeconds(record.total) - timeToSeconds(record.run)) : 0;
+  return { loggedSeconds, diffSeconds, unexplainedSeconds: diffSeconds - loggedSeconds };
+};
+
+export interface LossReasonSummary {
+  reason: DowntimeReason;
+  label: string;
+  events: number;
+  hours: number;
+  lostMeters: number; // hours at the shift record's production rate
+}
+
+export const summarizeLossReasons = (events: DowntimeEvent[], records: CalculatedLoomRecord[]): LossReasonSummary[] => {
+  const recordMap = new Map(records.map(r => [`${r.date}|${r.shift}|${r.machineNo}`, r]));
+  const summary = new Map<DowntimeReason, LossReasonSummary>();
+
+  events.forEach(event => {
+    const hours = getDowntimeSeconds(event) / 3600;
+    const record = recordMap.get(`${event.date}|${event.shift}|${event.machineNo}`);
+    const entry = summary.get(event.reason) ?? { reason: event.reason, label: getDowntimeReasonLabel(event.reason), events: 0, hours: 0, lostMeters: 0 };
+    entry.events++;
+    entry.hours += hours;
+    entry.lostMeters += record ? hours * record.hr : 0;
+    summary.set(event.reason, entry);
+  });
+
+  return Array.from(summary.values()).sort((a, b) => b.hours - a.hours);
+};
@@ -0,0 +1,54 @@
+import { eachDayOfInterval, endOfMonth, format, startOfMonth } from 'date-fns';
+import type { CalculatedLoomRecord } from './types';
+import { aggregateRecords, getGroupKey, indexRecords, EMPTY_AGGREGATE, type Aggregate } from './aggregation';
+import { compareMachineNo } from './machines';
+
+export type MatrixCell = Aggregate;
+
+export interface MatrixRow {
+  machineNo: string;
+  days: { [date: string]: MatrixCell };
+  total: MatrixCell;
+}
+
+export interface EfficiencyMatrix {
+  dates: string[];
+  rows: MatrixRow[];
+  days: { [date: string]: MatrixCell }; // all machines on the day
+  total: MatrixCell;
+}
+
+export const getMonthDates = (month: Date): string[] => {
+  return eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).map(d => format(d, 'yyyy-MM-dd'));
+};
+
+// Machines down the side and the days of the month across. Pass `shift` to count only that
+// shift; otherwise each cell combines every shift the machine ran that day.
+// Machines listed in `machineNos` get a row even when they have no records.
+export const buildEfficiencyMatrix = (
+  records: CalculatedLoomRecord[],
+  dates: string[],
+  machineNos: string[] = [],
+  shift?: string,
+): EfficiencyMatrix => {
+  const dateSet = new Set(dates);
+  const matching = records.filter(r => dateSet.has(r.date) && (!shift || r.shift === shift));
+  const byMachineDate = indexRecords(matching, ['machine', 'date']);
+
+  const machineTotals = indexRecords(matching, ['machine']);
+  const allMachineNos = Array.from(new Set([...machineNos, ...Array.from(machineTotals.values(), group => group.values.machine!)])).sort(compareMachineNo);
+
+  const rows = allMachineNos.map(machineNo => {
+    const days: MatrixRow['days'] = {};
+    dates.forEach(date => {
+      const cell = byMachineDate.get(getGroupKey([machineNo, date]));
+      if (cell) days[date] = cell;
+    });
+    return { machineNo, days, total: machineTotals.get(getGroupKey([machineNo])) ?? EMPTY_AGGREGATE };
+  });
+
+  const days: EfficiencyMatrix['days'] = {};
+  indexRecords(matching, ['date']).forEach(group => { days[group.values.date!] = group; });
+
+  return { dates, rows, days, total: aggregateRecords(matching) };
+};
@@ -0,0 +1,31 @@
+import { format, parseISO } from 'date-fns';
+import type { CalculatedLoomRecord } from './types';
+import { aggregateRecords, groupRecords, type Aggregate } from './aggregation';
+
+export interface MachineDay extends Aggregate {
+  date: string; // YYYY-MM-DD
+  label: string; // dd/MM, for chart axes
+}
+
+export interface MachineHistorySummary extends Aggregate {
+  best?: CalculatedLoomRecord; // highest efficiency shift
+  worst?: CalculatedLoomRecord; // lowest efficiency shift
+}
+
+// One point per day with production, oldest first, for the trend charts.
+export const buildMachineDays = (records: CalculatedLoomRecord[]): MachineDay[] => {
+  return groupRecords(records, ['date']).map(({ key, values, records: dayRecords, ...day }) => ({
+    ...day,
+    date: values.date!,
+    label: format(parseISO(values.date!), 'dd/MM'),
+  }));
+};
+
+export const summarizeMachineHistory = (records: CalculatedLoomRecord[]): MachineHistorySummary => {
+  const byEfficiency = [...records].sort((a, b) => b.efficiency - a.efficiency);
+  return {
+    ...aggregateRecords(records),
+    best: byEfficiency[0],
+    worst: byEfficiency.length > 1 ? byEfficiency[byEfficiency.length - 1] : undefined,
+  };
+};
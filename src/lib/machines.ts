@@ -0,0 +1,41 @@
+import type { Machine } from './types';
+
+export const compareMachineNo = (a: string, b: string): number => {
+  return a.localeCompare(b, undefined, { numeric: true });
+};
+
+export const sortMachines = (machines: Machine[]): Machine[] => {
+  return [...machines].sort((a, b) => compareMachineNo(a.machineNo, b.machineNo));
+};
+
+// Builds the initial registry for installs that only had a machine count.
+// Ids are deterministic so every device seeds the same machines.
+export const createDefaultMachines = (totalMachines: number): Machine[] => {
+  return Array.from({ length: totalMachines || 0 }, (_, i) => ({
+    id: `machine-${i + 1}`,
+    machineNo: (i + 1).toString(),
+    shed: '',
+    makeModel: '',
+    reedWidth: 0,
+    active: true,
+    commissionedOn: '',
+  }));
+};
+
+export const getActiveMachineNumbers = (machines: Machine[]): string[] => {
+  return sortMachines(machines.filter(m => m.active)).map(m => m.machineNo);
+};
+
+// Machines expected to have a record on a date: active and already commissioned.
+export const getExpectedMachineNumbers = (machines: Machine[], date: string): string[] => {
+  return sortMachines(machines.filter(m => m.active && (!m.commissionedOn || m.commissionedOn <= date)))
+    .map(m => m.machineNo);
+};
+
+export const getMachineLabel = (machine: Machine): string => {
+  return machine.shed ? `${machine.machineNo} (${machine.shed})` : machine.machineNo;
+};
+
+export const getMachineHref = (machineNo: string): string => {
+  return `/machines/${encodeURIComponent(machineNo)}`;
+};
@@ -0,0 +1,67 @@
+import jsPDF from 'jspdf';
+import autoTable, { type CellInput } from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import type { EfficiencyMatrix, MatrixCell } from './efficiency-matrix';
+import { COLORS, FOOTER_HEIGHT, PAGE_MARGIN, PRIMARY, RUNNING_HEADER_HEIGHT, drawPageFurniture, drawTitleBlock, type AutoTableDoc } from './report-pdf';
+
+const TITLE = 'Laxmi Shree Efficiency Matrix';
+
+// The on-screen cell colours: red below the alert threshold, green at or above it
+const LOW = { fillColor: '#fee2e2', textColor: '#991b1b' };
+const OK = { fillColor: '#dcfce7', textColor: '#166534' };
+
+export interface MatrixPdfOptions {
+  matrix: EfficiencyMatrix;
+  period: string; // the month
+  filters: string; // the shift shown
+  threshold: number; // low efficiency threshold, in %
+}
+
+// Machines down the side and days across on landscape pages. Headers repeat on every page,
+// rows are never split, and cells are coloured against the threshold as on screen.
+export const downloadMatrixPdf = async ({ matrix, period, filters, threshold }: MatrixPdfOptions, fileName: string) => {
+  const doc: AutoTableDoc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4', compress: true });
+
+  const efficiencyCell = (cell: MatrixCell | undefined, digits: number): CellInput => {
+    if (!cell || cell.shifts === 0) return '';
+    return { content: cell.efficiency.toFixed(digits), styles: cell.efficiency < threshold ? LOW : OK };
+  };
+
+  const startY = await drawTitleBlock(doc, TITLE, [`${period} - ${filters}`]);
+
+  autoTable(doc, {
+    startY,
+    theme: 'grid',
+    margin: { top: PAGE_MARGIN + RUNNING_HEADER_HEIGHT, bottom: PAGE_MARGIN + FOOTER_HEIGHT, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    rowPageBreak: 'avoid',
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    styles: { fontSize: 6, fontStyle: 'bold', cellPadding: 0.6, halign: 'center', lineColor: '#e5e7eb', lineWidth: 0.1 },
+    headStyles: { fillColor: '#f1f5f9', textColor: COLORS.gray },
+    footStyles: { fillColor: '#ede7f6', textColor: PRIMARY },
+    head: [[
+      'M/C',
+      ...matrix.dates.map(date => format(parseISO(date), 'dd')),
+      { content: 'Avg', styles: { textColor: COLORS.green } },
+      { content: 'Weft', styles: { textColor: COLORS.teal } },
+    ]],
+    body: matrix.rows.map(row => [
+      { content: row.machineNo, styles: { textColor: COLORS.purple } },
+      ...matrix.dates.map(date => efficiencyCell(row.days[date], 0)),
+      efficiencyCell(row.total, 1) || '-',
+      { content: row.total.weftMeter.toFixed(1), styles: { textColor: COLORS.teal } },
+    ]),
+    foot: [
+      ['Avg', ...matrix.dates.map(date => matrix.days[date]?.efficiency.toFixed(0) ?? ''), matrix.total.shifts > 0 ? matrix.total.efficiency.toFixed(1) : '-', ''],
+      [
+        { content: 'Weft', styles: { textColor: COLORS.teal } },
+        ...matrix.dates.map(date => ({ content: matrix.days[date]?.weftMeter.toFixed(0) ?? '', styles: { textColor: COLORS.teal } })),
+        '',
+        { content: matrix.total.weftMeter.toFixed(1), styles: { textColor: COLORS.teal } },
+      ],
+    ],
+  });
+
+  drawPageFurniture(doc, TITLE, period);
+  doc.save(fileName);
+};
@@ -0,0 +1,52 @@
+import type { CalculatedLoomRecord, Operator, OperatorAssignment } from './types';
+import { compareMachineNo } from './machines';
+import { groupRecords } from './aggregation';
+
+export const getOperatorMap = (operators: Operator[]): Map<string, Operator> => {
+  return new Map(operators.map(o => [o.id, o]));
+};
+
+export const getOperatorName = (operatorMap: Map<string, Operator>, operatorId?: string): string => {
+  if (!operatorId) return 'Unassigned';
+  return operatorMap.get(operatorId)?.name ?? 'Unknown Operator';
+};
+
+export const sortOperators = (operators: Operator[]): Operator[] => {
+  return [...operators].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// One roster slot per shift and machine, so the id is derived from both.
+export const getAssignmentId = (shift: string, machineNo: string): string => `${shift}:${machineNo}`;
+
+export const getAssignedOperatorId = (assignments: OperatorAssignment[], shift: string, machineNo: string): string | undefined => {
+  const id = getAssignmentId(shift, machineNo);
+  return assignments.find(a => a.id === id)?.operatorId;
+};
+
+export interface OperatorSummary {
+  operatorId: string; // empty for records without an operator
+  name: string;
+  machines: string[];
+  recordCount: number;
+  efficiency: number;
+  weftMeter: number;
+  stops: number;
+  lossPrd: number;
+}
+
+export const summarizeByOperator = (records: CalculatedLoomRecord[], operatorMap: Map<string, Operator>): OperatorSummary[] => {
+  return groupRecords(records, ['operator']).map(group => ({
+    operatorId: group.values.operator!,
+    name: getOperatorName(operatorMap, group.values.operator || undefined),
+    machines: Array.from(new Set(group.records.map(r => r.machineNo))).sort(compareMachineNo),
+    recordCount: group.shifts,
+    efficiency: group.efficiency,
+    weftMeter: group.weftMeter,
+    stops: group.stops,
+    lossPrd: group.lossPrd,
+  })).sort((a, b) => {
+    // Unassigned records go last
+    if (!a.operatorId !== !b.operatorId) return a.operatorId ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+};
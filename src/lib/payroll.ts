@@ -0,0 +1,124 @@
+import { format, parseISO, startOfMonth, endOfMonth, addMonths, eachDayOfInterval, setDate } from 'date-fns';
+import type { CalculatedLoomRecord, Operator, Quality, PayrollSettings, BonusSlab, WageDeduction } from './types';
+import { getOperatorName } from './operators';
+
+export type PayPeriodType = 'fortnight' | 'month';
+
+export interface PayPeriod {
+  type: PayPeriodType;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+}
+
+// Fortnights run 1st-15th and 16th-end of month.
+export const getPayPeriod = (date: Date, type: PayPeriodType): PayPeriod => {
+  const monthStart = startOfMonth(date);
+  const monthEnd = endOfMonth(date);
+  if (type === 'month') {
+    return { type, start: format(monthStart, 'yyyy-MM-dd'), end: format(monthEnd, 'yyyy-MM-dd') };
+  }
+  const isFirstHalf = date.getDate() <= 15;
+  return {
+    type,
+    start: format(isFirstHalf ? monthStart : setDate(date, 16), 'yyyy-MM-dd'),
+    end: format(isFirstHalf ? setDate(date, 15) : monthEnd, 'yyyy-MM-dd'),
+  };
+};
+
+export const shiftPayPeriod = (period: PayPeriod, direction: 1 | -1): PayPeriod => {
+  const start = parseISO(period.start);
+  if (period.type === 'month') return getPayPeriod(addMonths(start, direction), 'month');
+  const isFirstHalf = start.getDate() === 1;
+  if (direction === 1) {
+    return getPayPeriod(isFirstHalf ? setDate(start, 16) : addMonths(setDate(start, 1), 1), 'fortnight');
+  }
+  return getPayPeriod(isFirstHalf ? setDate(addMonths(start, -1), 16) : setDate(start, 1), 'fortnight');
+};
+
+export const getPayPeriodDates = (period: PayPeriod): string[] => {
+  return eachDayOfInterval({ start: parseISO(period.start), end: parseISO(period.end) }).map(d => format(d, 'yyyy-MM-dd'));
+};
+
+export const calculatePicks = (weftMeter: number, picksPerInch: number): number => {
+  return (weftMeter / 0.0254) * picksPerInch;
+};
+
+// Highest slab the shift's efficiency reaches; slabs do not stack.
+export const getShiftBonus = (slabs: BonusSlab[], efficiency: number): number => {
+  return slabs
+    .filter(slab => efficiency >= slab.minEfficiency)
+    .reduce((best, slab) => Math.max(best, slab.amount), 0);
+};
+
+export const calculateRecordEarnings = (record: CalculatedLoomRecord, quality: Quality | undefined, payroll: PayrollSettings): number => {
+  if (quality && quality.wageRate > 0) {
+    if (quality.wageBasis === 'kpick') {
+      return (calculatePicks(record.weftMeter, quality.picksPerInch) / 1000) * quality.wageRate;
+    }
+    return record.weftMeter * quality.wageRate;
+  }
+  return record.weftMeter * payroll.defaultRatePerMeter;
+};
+
+export interface WageSheetRow {
+  operatorId: string;
+  name: string;
+  days: { [date: string]: number }; // earnings plus bonus per day
+  shifts: number;
+  weftMeter: number;
+  earnings: number;
+  bonus: number;
+  deductions: number;
+  net: number;
+}
+
+export const buildWageSheet = (
+  records: CalculatedLoomRecord[],
+  operatorMap: Map<string, Operator>,
+  qualityMap: Map<string, Quality>,
+  deductions: WageDeduction[],
+  payroll: PayrollSettings,
+  period: PayPeriod
+): WageSheetRow[] => {
+  const rows: { [operatorId: string]: WageSheetRow } = {};
+  const getRow = (operatorId: string) => {
+    if (!rows[operatorId]) {
+      rows[operatorId] = {
+        operatorId,
+        name: getOperatorName(operatorMap, operatorId),
+        days: {},
+        shifts: 0,
+        weftMeter: 0,
+        earnings: 0,
+        bonus: 0,
+        deductions: 0,
+        net: 0,
+      };
+    }
+    return rows[operatorId];
+  };
+
+  const isInPeriod = (date: string) => date >= period.start && date <= period.end;
+
+  records.forEach(record => {
+    if (!record.operatorId || !isInPeriod(record.date)) return;
+    const row = getRow(record.operatorId);
+    const quality = record.qualityId ? qualityMap.get(record.qualityId) : undefined;
+    const earnings = calculateRecordEarnings(record, quality, payroll);
+    const bonus = getShiftBonus(payroll.bonusSlabs, record.efficiency);
+    row.days[record.date] = (row.days[record.date] ?? 0) + earnings + bonus;
+    row.shifts++;
+    row.weftMeter += record.weftMeter;
+    row.earnings += earnings;
+    row.bonus += bonus;
+  });
+
+  deductions.forEach(deduction => {
+    if (!isInPeriod(deduction.date)) return;
+    getRow(deduction.operatorId).deductions += deduction.amount;
+  });
+
+  return Object.values(rows)
+    .map(row => ({ ...row, net: row.earnings + row.bonus - row.deductions }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,41 @@
+import type { LoomRecord, CalculatedLoomRecord, Quality } from './types';
+import { processRecord } from './calculations';
+import { groupRecords } from './aggregation';
+
+export const getQualityMap = (qualities: Quality[]): Map<string, Quality> => {
+  return new Map(qualities.map(q => [q.id, q]));
+};
+
+export const getQualityName = (qualityMap: Map<string, Quality>, qualityId?: string): string => {
+  if (!qualityId) return 'No Quality';
+  return qualityMap.get(qualityId)?.name ?? 'Unknown Quality';
+};
+
+export const sortQualities = (qualities: Quality[]): Quality[] => {
+  return [...qualities].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
+
+// Runs processRecord with the quality each record references.
+export const processRecordsWithQualities = (records: LoomRecord[], qualityMap: Map<string, Quality>): CalculatedLoomRecord[] => {
+  return records.map(r => processRecord(r, r.qualityId ? qualityMap.get(r.qualityId) : undefined));
+};
+
+export interface QualitySummary {
+  qualityId: string; // empty for records without a quality
+  name: string;
+  efficiency: number;
+  targetEfficiency: number; // 0 without a quality
+  weftMeter: number;
+  expectedPrd: number;
+}
+
+export const summarizeByQuality = (records: CalculatedLoomRecord[], qualityMap: Map<string, Quality>): QualitySummary[] => {
+  return groupRecords(records, ['quality']).map(({ values: { quality: qualityId = '' }, efficiency, weftMeter, expectedPrd }) => ({
+    qualityId,
+    name: getQualityName(qualityMap, qualityId || undefined),
+    efficiency,
+    targetEfficiency: qualityMap.get(qualityId)?.targetEfficiency ?? 0,
+    weftMeter,
+    expectedPrd,
+  })).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
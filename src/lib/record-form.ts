@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { format } from 'date-fns';
+import type { LoomRecord, ReadingMode, ShiftDefinition, StopBreakdown } from './types';
+import { findShiftByScannerLetter } from './shifts';
+import { compactStopBreakdown, getStopBreakdownTotal } from './stops';
+import { EMPTY_COUNTER_READING } from './counters';
+import type { ScanLoomDisplayOutput } from '@/ai/flows/scan-loom-display';
+
+const stopCount = z.coerce.number().int('Whole numbers only.').min(0, 'Must be positive.');
+const durationSchema = z.string().regex(/^([0-9\s]+):([0-5]\d):([0-5]\d)$/, 'Invalid time format (HH:MM:SS)');
+
+const recordFieldsSchema = z.object({
+  date: z.date({ required_error: 'A date is required.' }),
+  time: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)'),
+  shift: z.string({ required_error: 'Shift is required.' }).min(1, 'Shift is required.'),
+  machineNo: z.string().min(1, 'Machine No. is required.'),
+  stops: z.coerce.number().min(0, 'Stops must be a positive number.'),
+  stopBreakdown: z.object({
+    warp: stopCount,
+    weft: stopCount,
+    leno: stopCount,
+    mechanical: stopCount,
+    electrical: stopCount,
+    other: stopCount,
+  }),
+  weftMeter: z.coerce.number().min(0, 'Weft Meter must be a positive number.'),
+  total: durationSchema,
+  run: durationSchema,
+  qualityId: z.string().optional(),
+  operatorId: z.string().optional(),
+  counterReading: z.object({
+    weftMeter: z.coerce.number().min(0, 'Must be positive.'),
+    stops: stopCount,
+    total: durationSchema,
+    run: durationSchema,
+  }).optional(),
+});
+
+export const formSchema = recordFieldsSchema.refine(
+  values => getStopBreakdownTotal(values.stopBreakdown) <= values.stops,
+  { message: 'Category stops add up to more than total stops.', path: ['stopBreakdown'] }
+);
+
+export type RecordFormValues = z.infer<typeof formSchema>;
+
+export const EMPTY_STOP_BREAKDOWN: RecordFormValues['stopBreakdown'] = { warp: 0, weft: 0, leno: 0, mechanical: 0, electrical: 0, other: 0 };
+
+export const stopBreakdownToFormValues = (breakdown?: StopBreakdown): RecordFormValues['stopBreakdown'] => ({
+  ...EMPTY_STOP_BREAKDOWN,
+  ...breakdown,
+});
+
+export const formValuesToRecord = (values: RecordFormValues): Omit<LoomRecord, 'id'> => ({
+  ...values,
+  date: format(values.date, 'yyyy-MM-dd'),
+  stopBreakdown: compactStopBreakdown(values.stopBreakdown),
+});
+
+// Maps the raw strings returned by the loom display scanner onto form values.
+// The date is never taken from the scan; the user's selected date is kept.
+// With cumulative counters the display values are a counter reading, not the shift's values.
+export const scanResultToFormValues = (
+  result: ScanLoomDisplayOutput,
+  shifts: ShiftDefinition[],
+  readingMode: ReadingMode = 'shift'
+): Partial<Omit<RecordFormValues, 'date'>> => {
+  const valuesToSet: Partial<Omit<RecordFormValues, 'date'>> = {};
+  if (result.time) valuesToSet.time = result.time;
+  if (result.shift) {
+      const shift = findShiftByScannerLetter(shifts, result.shift);
+      if (shift) valuesToSet.shift = shift.code;
+  }
+  if (result.machineNo) valuesToSet.machineNo = result.machineNo;
+  if (readingMode === 'cumulative') {
+    valuesToSet.counterReading = {
+      weftMeter: result.weftMeter ? parseFloat(result.weftMeter) : EMPTY_COUNTER_READING.weftMeter,
+      stops: result.stops ? parseInt(result.stops, 10) : EMPTY_COUNTER_READING.stops,
+      total: result.total || EMPTY_COUNTER_READING.total,
+      run: result.run || EMPTY_COUNTER_READING.run,
+    };
+    return valuesToSet;
+  }
+  if (result.stops) valuesToSet.stops = parseInt(result.stops, 10);
+  const scannedBreakdown: StopBreakdown = {};
+  if (result.warpStops) scannedBreakdown.warp = parseInt(result.warpStops, 10);
+  if (result.weftStops) scannedBreakdown.weft = parseInt(result.weftStops, 10);
+  if (result.lenoStops) scannedBreakdown.leno = parseInt(result.lenoStops, 10);
+  if (result.otherStops) scannedBreakdown.other = parseInt(result.otherStops, 10);
+  if (Object.keys(scannedBreakdown).length > 0) valuesToSet.stopBreakdown = stopBreakdownToFormValues(scannedBreakdown);
+  if (result.weftMeter) valuesToSet.weftMeter = parseFloat(result.weftMeter);
+  if (result.total) valuesToSet.total = result.total;
+  if (result.run) valuesToSet.run = result.run;
+  return valuesToSet;
+};
+
+// A record is a duplicate when another record exists for the same date, shift and machine.
+// Pass `excludeId` when editing so the record being edited is not matched against itself.
+export const findDuplicateRecord = (
+  records: LoomRecord[],
+  key: Pick<LoomRecord, 'date' | 'shift' | 'machineNo'>,
+  excludeId?: string
+): LoomRecord | undefined => {
+  return records.find(
+    r => r.id !== excludeId && r.date === key.date && r.shift === key.shift && r.machineNo === key.machineNo
+  );
+};
+
+// Per-machine row of the bulk shift entry grid; date, time and shift are shared by the whole grid.
+export const bulkRowSchema = recordFieldsSchema.pick({ stops: true, weftMeter: true, total: true, run: true });
+
+export type BulkRowValues = z.infer<typeof bulkRowSchema>;
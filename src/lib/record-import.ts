@@ -0,0 +1,135 @@
+import { isValid, parse } from 'date-fns';
+import type { LoomRecord, Operator, Quality, ShiftDefinition } from './types';
+import { secondsToTime, timeToSeconds } from './calculations';
+import type { SheetRow } from './csv';
+import { EMPTY_STOP_BREAKDOWN, findDuplicateRecord, formSchema, formValuesToRecord, type RecordFormValues } from './record-form';
+
+export type ImportField = 'date' | 'time' | 'shift' | 'machineNo' | 'stops' | 'weftMeter' | 'total' | 'run' | 'quality' | 'operator';
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: 'date', label: 'Date', required: true, aliases: ['date', 'dt'] },
+  { key: 'shift', label: 'Shift', required: true, aliases: ['shift', 'shft'] },
+  { key: 'machineNo', label: 'M/C', required: true, aliases: ['m/c', 'mc', 'machine', 'machine no', 'machineno', 'loom', 'loom no'] },
+  { key: 'stops', label: 'Stops', required: true, aliases: ['stops', 'stop', 'all stops'] },
+  { key: 'weftMeter', label: 'Weft(m)', required: true, aliases: ['weft', 'weft(m)', 'weftmeter', 'weft meter', 'meter', 'meters', 'production'] },
+  { key: 'total', label: 'Total', required: true, aliases: ['total', 'total time'] },
+  { key: 'run', label: 'Run', required: true, aliases: ['run', 'run time'] },
+  { key: 'time', label: 'Time', required: false, aliases: ['time', 'entry time'] },
+  { key: 'quality', label: 'Quality', required: false, aliases: ['quality', 'sort'] },
+  { key: 'operator', label: 'Operator', required: false, aliases: ['operator', 'weaver'] },
+];
+
+// Column index per field, -1 when the field is not in the file
+export type ColumnMapping = Record<ImportField, number>;
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[._]/g, ' ').replace(/\s+/g, ' ');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalize);
+  return Object.fromEntries(IMPORT_FIELDS.map(({ key, aliases }) => [
+    key,
+    normalizedHeaders.findIndex(header => aliases.includes(header)),
+  ])) as ColumnMapping;
+};
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'd/M/yyyy', 'dd/MM/yy', 'd/M/yy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'yyyy-MM-dd'];
+
+// Registers are kept day first; ISO dates are accepted too.
+export const parseImportDate = (value: string): Date | undefined => {
+  const referenceDate = new Date();
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value.trim(), dateFormat, referenceDate);
+    if (isValid(date) && date.getFullYear() >= 2000) return date;
+  }
+  return undefined;
+};
+
+// HH:MM:SS, or HH:MM from sheets that drop the seconds; anything else is left for the form rules to reject.
+export const parseImportDuration = (value: string): string => {
+  const trimmed = value.trim();
+  if (!/^\d+:\d{1,2}(:\d{1,2})?$/.test(trimmed)) return trimmed;
+  return secondsToTime(timeToSeconds(trimmed));
+};
+
+const findShift = (shifts: ShiftDefinition[], value: string): ShiftDefinition | undefined => {
+  const key = normalize(value);
+  return shifts.find(s => normalize(s.code) === key || normalize(s.name) === key || (s.scannerLetter && normalize(s.scannerLetter) === key));
+};
+
+export interface ImportContext {
+  shifts: ShiftDefinition[];
+  qualities: Quality[];
+  operators: Operator[];
+  records: LoomRecord[];
+}
+
+export interface ImportRow {
+  rowNumber: number; // as numbered in the sheet, header and blank rows included
+  record?: Omit<LoomRecord, 'id'>;
+  errors: string[];
+  duplicate?: 'existing' | 'file'; // the shift already has a record on this device, or earlier in the file
+}
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(IMPORT_FIELDS.map(f => [f.key, f.label]));
+
+// Each data row, everything after the header row, is checked with the same rules as the Add Record form.
+export const buildImportRows = (rows: SheetRow[], mapping: ColumnMapping, context: ImportContext): ImportRow[] => {
+  const qualityByName = new Map(context.qualities.map(q => [normalize(q.name), q.id]));
+  const operatorByName = new Map(context.operators.map(o => [normalize(o.name), o.id]));
+  const seenKeys = new Set<string>();
+
+  return rows.slice(1).map(({ rowNumber, cells }) => {
+    const cell = (field: ImportField) => mapping[field] >= 0 ? (cells[mapping[field]] ?? '').trim() : '';
+    const errors: string[] = [];
+
+    const date = parseImportDate(cell('date'));
+    if (!date) errors.push(`Date: "${cell('date')}" is not a DD/MM/YYYY date.`);
+
+    const shift = findShift(context.shifts, cell('shift'));
+    if (!shift) errors.push(`Shift: "${cell('shift')}" is not a defined shift.`);
+
+    const qualityName = cell('quality');
+    const qualityId = qualityName ? qualityByName.get(normalize(qualityName)) : undefined;
+    if (qualityName && !qualityId) errors.push(`Quality: "${qualityName}" is not in the catalogue.`);
+
+    const operatorName = cell('operator');
+    const operatorId = operatorName ? operatorByName.get(normalize(operatorName)) : undefined;
+    if (operatorName && !operatorId) errors.push(`Operator: "${operatorName}" is not registered.`);
+
+    // Blank numbers would otherwise be read as 0
+    IMPORT_FIELDS.forEach(({ key, label, required }) => {
+      if (required && key !== 'date' && key !== 'shift' && !cell(key)) errors.push(`${label}: missing.`);
+    });
+
+    if (!date || !shift) return { rowNumber, errors };
+
+    const values = {
+      date,
+      // Registers rarely note the entry time; the shift start stands in for it
+      time: cell('time') ? parseImportDuration(cell('time')).slice(0, 5) : shift.startTime,
+      shift: shift.code,
+      machineNo: cell('machineNo'),
+      stops: cell('stops'),
+      stopBreakdown: EMPTY_STOP_BREAKDOWN,
+      weftMeter: cell('weftMeter'),
+      total: parseImportDuration(cell('total')),
+      run: parseImportDuration(cell('run')),
+      qualityId,
+      operatorId,
+    };
+    const parsed = formSchema.safeParse(values);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => {
+        const field = String(issue.path[0]);
+        errors.push(`${FIELD_LABELS[field] ?? field}: ${issue.message}`);
+      });
+    }
+    if (errors.length > 0 || !parsed.success) return { rowNumber, errors };
+
+    const record = formValuesToRecord(parsed.data as RecordFormValues);
+    const key = `${record.date}|${record.shift}|${record.machineNo}`;
+    const duplicate = findDuplicateRecord(context.records, record) ? 'existing' : seenKeys.has(key) ? 'file' : undefined;
+    seenKeys.add(key);
+    return { rowNumber, record, errors, duplicate };
+  });
+};
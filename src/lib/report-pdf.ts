@@ -0,0 +1,280 @@
+import jsPDF from 'jspdf';
+import autoTable, { type CellInput, type RowInput, type UserOptions } from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import type { CalculatedLoomRecord, ShiftDefinition } from './types';
+import type { LossReasonSummary } from './downtime';
+import type { OperatorSummary } from './operators';
+import { aggregateRecords } from './aggregation';
+import { buildStopPareto } from './stops';
+import { getShiftName } from './shifts';
+
+export const PAGE_MARGIN = 10; // mm
+export const RUNNING_HEADER_HEIGHT = 8; // space kept above the tables on every page after the first
+export const FOOTER_HEIGHT = 8;
+const LOGO_HEIGHT = 12;
+
+// The app's primary colour and the on-screen column colours
+export const PRIMARY = '#663399';
+export const COLORS = {
+  gray: '#374151',
+  purple: '#9333ea',
+  orange: '#ea580c',
+  teal: '#0d9488',
+  blue: '#2563eb',
+  green: '#16a34a',
+  pink: '#db2777',
+  red: '#b91c1c',
+};
+
+const SHIFT_COLUMNS: { header: string; color: string }[] = [
+  { header: 'Date', color: COLORS.gray },
+  { header: 'Time', color: COLORS.gray },
+  { header: 'M/C', color: COLORS.purple },
+  { header: 'Stops', color: COLORS.orange },
+  { header: 'Weft', color: COLORS.teal },
+  { header: 'ExpPrd', color: COLORS.blue },
+  { header: 'Eff(%)', color: COLORS.green },
+  { header: 'Total', color: COLORS.gray },
+  { header: 'Run', color: COLORS.gray },
+  { header: 'Diff', color: COLORS.pink },
+  { header: 'LossPrd', color: COLORS.red },
+];
+
+export interface ReportPdfGroup {
+  key: string;
+  title: string;
+  records: CalculatedLoomRecord[];
+}
+
+export interface ReportPdfOptions {
+  groups: ReportPdfGroup[]; // as grouped and sorted on screen
+  shifts: ShiftDefinition[];
+  shiftCodes: string[];
+  period: string;
+  filters: string; // the active machine, shift and quality filters, blank for none
+  lossReasons: LossReasonSummary[];
+  operatorSummary: OperatorSummary[];
+}
+
+export type AutoTableDoc = jsPDF & { lastAutoTable?: { finalY: number } };
+
+// The logo is optional; a missing or unreadable file only drops it from the header.
+const loadLogo = async (): Promise<{ data: string; width: number; height: number } | null> => {
+  try {
+    const response = await fetch('/logo.png');
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    const image = new Image();
+    image.src = data;
+    await image.decode();
+    return { data, width: image.naturalWidth, height: image.naturalHeight };
+  } catch {
+    return null;
+  }
+};
+
+// Logo, title and subtitle lines centred at the top of the first page. Blank lines are skipped.
+// Returns where the content below it starts.
+export const drawTitleBlock = async (doc: jsPDF, title: string, lines: string[]): Promise<number> => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = PAGE_MARGIN;
+  const logo = await loadLogo();
+  if (logo) {
+    const logoWidth = (logo.width / logo.height) * LOGO_HEIGHT;
+    doc.addImage(logo.data, 'PNG', (pageWidth - logoWidth) / 2, y, logoWidth, LOGO_HEIGHT);
+    y += LOGO_HEIGHT + 2;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(PRIMARY);
+  doc.text(title, pageWidth / 2, y + 5, { align: 'center' });
+  y += 8;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(COLORS.gray);
+  lines.filter(Boolean).forEach(line => {
+    doc.text(line, pageWidth / 2, y + 3, { align: 'center' });
+    y += 5;
+  });
+  return y + 2;
+};
+
+// Running header and page numbers, drawn once all content is in and the page count is known
+export const drawPageFurniture = (doc: jsPDF, title: string, period: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.gray);
+    if (page > 1) {
+      doc.text(title, PAGE_MARGIN, PAGE_MARGIN + 2);
+      doc.text(period, pageWidth - PAGE_MARGIN, PAGE_MARGIN + 2, { align: 'right' });
+    }
+    doc.text(`Generated ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, PAGE_MARGIN, pageHeight - PAGE_MARGIN);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN, { align: 'right' });
+  }
+};
+
+const totalCell = (content: string, colSpan = 1): CellInput => ({ content, colSpan });
+
+// Same cells, formatting and footer totals as renderTableForShift on the report page.
+const shiftTableRows = (records: CalculatedLoomRecord[]): { body: RowInput[]; foot: RowInput[] } => {
+  const totals = aggregateRecords(records);
+  return {
+    body: records.map(r => [
+      format(parseISO(r.date), 'dd/MM'),
+      r.time.substring(0, 5),
+      r.machineNo,
+      r.stops,
+      r.weftMeter.toFixed(1),
+      r.expectedPrd > 0 ? r.expectedPrd.toFixed(1) : '-',
+      r.efficiency.toFixed(2),
+      r.total,
+      r.run,
+      r.diff,
+      r.lossPrd.toFixed(2),
+    ]),
+    foot: [[
+      totalCell('Total', 4),
+      totalCell(totals.weftMeter.toFixed(2)),
+      totalCell(totals.expectedPrd > 0 ? totals.expectedPrd.toFixed(2) : ''),
+      totalCell('', 4),
+      totalCell(totals.lossPrd.toFixed(2)),
+    ]],
+  };
+};
+
+// Builds the report as real tables: headers repeat on each page, rows are never split,
+// and every page carries the report title and a page number.
+export const downloadReportPdf = async (options: ReportPdfOptions, fileName: string) => {
+  const { groups, shifts, shiftCodes, period, filters, lossReasons, operatorSummary } = options;
+  const doc: AutoTableDoc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentBottom = pageHeight - PAGE_MARGIN - FOOTER_HEIGHT;
+  const records = groups.flatMap(g => g.records);
+
+  const tableMargin = { top: PAGE_MARGIN + RUNNING_HEADER_HEIGHT, bottom: PAGE_MARGIN + FOOTER_HEIGHT, left: PAGE_MARGIN, right: PAGE_MARGIN };
+  const tableDefaults: UserOptions = {
+    theme: 'grid',
+    margin: tableMargin,
+    rowPageBreak: 'avoid',
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    styles: { fontSize: 7, fontStyle: 'bold', cellPadding: 0.8, lineColor: '#e5e7eb', lineWidth: 0.1 },
+    headStyles: { fillColor: '#f1f5f9', textColor: COLORS.gray },
+    footStyles: { fillColor: '#ede7f6', textColor: PRIMARY },
+  };
+
+  let y = PAGE_MARGIN;
+
+  // Moves to a new page when a heading and the first rows of its table would not fit
+  const ensureSpace = (height: number) => {
+    if (y + height > contentBottom) {
+      doc.addPage();
+      y = PAGE_MARGIN + RUNNING_HEADER_HEIGHT;
+    }
+  };
+
+  const heading = (text: string, size: number, fill?: string) => {
+    ensureSpace(size * 0.5 + 16);
+    if (fill) {
+      doc.setFillColor(fill);
+      doc.rect(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN * 2, size * 0.5, 'F');
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(size);
+    doc.setTextColor(PRIMARY);
+    doc.text(text, pageWidth / 2, y + size * 0.35, { align: 'center' });
+    y += size * 0.5 + 1;
+  };
+
+  const table = (tableOptions: UserOptions) => {
+    autoTable(doc, { ...tableDefaults, ...tableOptions, startY: y });
+    y = (doc.lastAutoTable?.finalY ?? y) + 3;
+  };
+
+  y = await drawTitleBlock(doc, 'Laxmi Shree Efficiency Report', [period, filters]);
+
+  if (records.length === 0) {
+    doc.text('No records found for the selected filters.', pageWidth / 2, y + 5, { align: 'center' });
+  }
+
+  groups.forEach(group => {
+    heading(group.title, 11, '#f1f5f9');
+    shiftCodes.forEach(code => {
+      const shiftRecords = group.records.filter(r => r.shift === code);
+      if (shiftRecords.length === 0) return;
+      heading(`${getShiftName(shifts, code)} Shift`, 9);
+      table({
+        head: [SHIFT_COLUMNS.map(c => c.header)],
+        ...shiftTableRows(shiftRecords),
+        columnStyles: Object.fromEntries(SHIFT_COLUMNS.map((c, index) => [index, { textColor: c.color }])),
+      });
+    });
+  });
+
+  if (records.length > 0) {
+    const pareto = buildStopPareto(records);
+    if (pareto.length > 0) {
+      heading('Stop Categories', 11, '#f1f5f9');
+      table({
+        head: [['Category', 'Stops', 'Cumulative %']],
+        body: pareto.map(p => [p.label, p.count, p.cumulativePercent.toFixed(1)]),
+        columnStyles: { 1: { textColor: COLORS.orange } },
+      });
+    }
+  }
+
+  if (lossReasons.length > 0) {
+    heading('Loss Reasons', 11, '#f1f5f9');
+    table({
+      head: [['Reason', 'Events', 'Hours', 'Lost m']],
+      body: lossReasons.map(l => [l.label, l.events, l.hours.toFixed(2), l.lostMeters.toFixed(2)]),
+      columnStyles: { 2: { textColor: COLORS.pink }, 3: { textColor: COLORS.red } },
+    });
+  }
+
+  if (operatorSummary.length > 0) {
+    heading('Operator-wise Summary', 11, '#f1f5f9');
+    table({
+      head: [['Operator', 'M/C', 'Shifts', 'Eff(%)', 'Weft', 'Stops', 'LossPrd']],
+      body: operatorSummary.map(o => [o.name, o.machines.join(', '), o.recordCount, o.efficiency.toFixed(2), o.weftMeter.toFixed(1), o.stops, o.lossPrd.toFixed(2)]),
+      columnStyles: {
+        1: { textColor: COLORS.purple },
+        3: { textColor: COLORS.green },
+        4: { textColor: COLORS.teal },
+        5: { textColor: COLORS.orange },
+        6: { textColor: COLORS.red },
+      },
+    });
+  }
+
+  if (records.length > 0) {
+    heading('Grand Total', 11, '#f1f5f9');
+    const totals = aggregateRecords(records);
+    table({
+      body: [
+        ['Shifts', totals.shifts],
+        ['Weft Meter', totals.weftMeter.toFixed(2)],
+        ...(totals.expectedPrd > 0 ? [['Expected Prd', totals.expectedPrd.toFixed(2)]] : []),
+        ['Loss Prd', totals.lossPrd.toFixed(2)],
+      ],
+      tableWidth: 70,
+      margin: { ...tableMargin, left: pageWidth - PAGE_MARGIN - 70 },
+      styles: { ...tableDefaults.styles, fontSize: 9, textColor: PRIMARY },
+    });
+  }
+
+  drawPageFurniture(doc, 'Laxmi Shree Efficiency Report', period);
+  doc.save(fileName);
+};
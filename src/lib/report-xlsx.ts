@@ -0,0 +1,207 @@
+import { format, parseISO } from 'date-fns';
+import type { Cell, Row, Worksheet } from 'exceljs';
+import type { CalculatedLoomRecord, ShiftDefinition } from './types';
+import { timeToSeconds } from './calculations';
+import { aggregateRecords, groupRecords, type Aggregate } from './aggregation';
+import { getShiftName } from './shifts';
+import { downloadBlob } from './download';
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const SECONDS_PER_DAY = 86400;
+const DURATION_FORMAT = '[h]:mm:ss';
+
+// Font colours of the on-screen report columns
+const COLORS = {
+  gray: 'FF374151',
+  purple: 'FF9333EA',
+  orange: 'FFEA580C',
+  teal: 'FF0D9488',
+  blue: 'FF2563EB',
+  green: 'FF16A34A',
+  pink: 'FFDB2777',
+  red: 'FFB91C1C',
+};
+
+type Column = { header: string; width: number; color: string; numFmt?: string };
+
+// Same columns, in the same order, as the report tables
+const SHIFT_COLUMNS: Column[] = [
+  { header: 'Date', width: 8, color: COLORS.gray, numFmt: 'dd/mm' },
+  { header: 'Time', width: 7, color: COLORS.gray, numFmt: 'hh:mm' },
+  { header: 'M/C', width: 7, color: COLORS.purple },
+  { header: 'Stops', width: 7, color: COLORS.orange, numFmt: '0' },
+  { header: 'Weft', width: 9, color: COLORS.teal, numFmt: '0.0' },
+  { header: 'ExpPrd', width: 9, color: COLORS.blue, numFmt: '0.0' },
+  { header: 'Eff(%)', width: 8, color: COLORS.green, numFmt: '0.00' },
+  { header: 'Total', width: 10, color: COLORS.gray, numFmt: DURATION_FORMAT },
+  { header: 'Run', width: 10, color: COLORS.gray, numFmt: DURATION_FORMAT },
+  { header: 'Diff', width: 10, color: COLORS.pink, numFmt: DURATION_FORMAT },
+  { header: 'LossPrd', width: 9, color: COLORS.red, numFmt: '0.00' },
+];
+
+const SUMMARY_COLUMNS: Column[] = [
+  { header: 'M/C', width: 8, color: COLORS.purple },
+  { header: 'Shifts', width: 7, color: COLORS.gray, numFmt: '0' },
+  { header: 'Stops', width: 7, color: COLORS.orange, numFmt: '0' },
+  { header: 'Weft', width: 10, color: COLORS.teal, numFmt: '0.0' },
+  { header: 'ExpPrd', width: 10, color: COLORS.blue, numFmt: '0.0' },
+  { header: 'Eff(%)', width: 8, color: COLORS.green, numFmt: '0.00' },
+  { header: 'Total', width: 11, color: COLORS.gray, numFmt: DURATION_FORMAT },
+  { header: 'Run', width: 11, color: COLORS.gray, numFmt: DURATION_FORMAT },
+  { header: 'Diff', width: 11, color: COLORS.pink, numFmt: DURATION_FORMAT },
+  { header: 'LossPrd', width: 9, color: COLORS.red, numFmt: '0.00' },
+];
+
+const TOTAL_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFE0E7FF' } };
+const HEADER_FILL = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFF1F5F9' } };
+
+// Durations are stored as fractions of a day so Excel can add them up
+const toDuration = (time: string) => timeToSeconds(time) / SECONDS_PER_DAY;
+
+// Excel dates carry no timezone; written in UTC so the day does not shift
+const toExcelDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const styleRow = (row: Row, columns: Column[]) => {
+  columns.forEach((column, index) => {
+    const cell = row.getCell(index + 1);
+    cell.font = { bold: true, size: 9, color: { argb: column.color } };
+    if (column.numFmt) cell.numFmt = column.numFmt;
+  });
+};
+
+const addTitle = (sheet: Worksheet, text: string, columnCount: number, size = 11) => {
+  const row = sheet.addRow([text]);
+  sheet.mergeCells(row.number, 1, row.number, columnCount);
+  row.getCell(1).font = { bold: true, size };
+  row.getCell(1).alignment = { horizontal: 'center' };
+  return row;
+};
+
+const addHeader = (sheet: Worksheet, columns: Column[]) => {
+  const row = sheet.addRow(columns.map(c => c.header));
+  row.eachCell(cell => {
+    cell.font = { bold: true, size: 9 };
+    cell.fill = HEADER_FILL;
+  });
+  return row;
+};
+
+// Sums the data rows above with a formula; the cached result lets viewers without recalculation show it too
+const sumFormula = (cell: Cell, firstRow: number, lastRow: number, result: number) => {
+  cell.value = { formula: `SUM(${cell.address.replace(/\d+$/, String(firstRow))}:${cell.address.replace(/\d+$/, String(lastRow))})`, result };
+};
+
+const styleTotalRow = (row: Row, columns: Column[]) => {
+  columns.forEach((column, index) => {
+    const cell = row.getCell(index + 1);
+    cell.font = { bold: true, size: 9 };
+    cell.fill = TOTAL_FILL;
+    if (column.numFmt) cell.numFmt = column.numFmt;
+  });
+};
+
+// One table per shift, laid out like renderTableForShift on the report page.
+const addShiftSection = (sheet: Worksheet, records: CalculatedLoomRecord[], shiftName: string) => {
+  addTitle(sheet, `${shiftName} Shift`, SHIFT_COLUMNS.length, 10);
+  addHeader(sheet, SHIFT_COLUMNS);
+
+  const firstRow = sheet.rowCount + 1;
+  records.forEach(r => {
+    const row = sheet.addRow([
+      toExcelDate(r.date),
+      toDuration(r.time.substring(0, 5)),
+      r.machineNo,
+      r.stops,
+      r.weftMeter,
+      r.expectedPrd > 0 ? r.expectedPrd : '-',
+      r.efficiency,
+      toDuration(r.total),
+      toDuration(r.run),
+      toDuration(r.diff),
+      r.lossPrd,
+    ]);
+    styleRow(row, SHIFT_COLUMNS);
+  });
+  const lastRow = sheet.rowCount;
+
+  // Mirrors the table footer: weft, expected production and loss production
+  const totals = aggregateRecords(records);
+  const totalRow = sheet.addRow(['Total']);
+  sheet.mergeCells(totalRow.number, 1, totalRow.number, 4);
+  sumFormula(totalRow.getCell(5), firstRow, lastRow, totals.weftMeter);
+  if (totals.expectedPrd > 0) sumFormula(totalRow.getCell(6), firstRow, lastRow, totals.expectedPrd);
+  sumFormula(totalRow.getCell(11), firstRow, lastRow, totals.lossPrd);
+  styleTotalRow(totalRow, SHIFT_COLUMNS);
+
+  sheet.addRow([]);
+};
+
+const totalsToCells = (label: string, t: Aggregate) => [
+  label,
+  t.shifts,
+  t.stops,
+  t.weftMeter,
+  t.expectedPrd > 0 ? t.expectedPrd : '-',
+  t.efficiency,
+  t.totalSeconds / SECONDS_PER_DAY,
+  t.runSeconds / SECONDS_PER_DAY,
+  (t.totalSeconds - t.runSeconds) / SECONDS_PER_DAY,
+  t.lossPrd,
+];
+
+const addSummarySheet = (sheet: Worksheet, records: CalculatedLoomRecord[]) => {
+  addHeader(sheet, SUMMARY_COLUMNS);
+
+  groupRecords(records, ['machine']).forEach(machine => {
+    styleRow(sheet.addRow(totalsToCells(machine.values.machine!, machine)), SUMMARY_COLUMNS);
+  });
+
+  const totalRow = sheet.addRow(totalsToCells('Total', aggregateRecords(records)));
+  styleTotalRow(totalRow, SUMMARY_COLUMNS);
+};
+
+export interface ReportWorkbookOptions {
+  records: CalculatedLoomRecord[]; // filtered and sorted as on screen
+  shifts: ShiftDefinition[];
+  shiftCodes: string[];
+  period: string;
+  filters: string; // the active machine, shift and quality filters, blank for none
+}
+
+// A summary sheet with machine-wise totals, then one sheet per date with a section for each shift.
+export const createReportWorkbook = async ({ records, shifts, shiftCodes, period, filters }: ReportWorkbookOptions) => {
+  // Loaded on demand; only the import and export screens need it
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Laxmi Shree';
+  workbook.created = new Date();
+
+  const summary = workbook.addWorksheet('Summary', { views: [{ state: 'frozen', ySplit: filters ? 3 : 2 }] });
+  summary.columns = SUMMARY_COLUMNS.map(c => ({ width: c.width }));
+  addTitle(summary, `Laxmi Shree Efficiency Report, ${period}`, SUMMARY_COLUMNS.length);
+  if (filters) addTitle(summary, filters, SUMMARY_COLUMNS.length, 9);
+  addSummarySheet(summary, records);
+
+  groupRecords(records, ['date']).forEach(({ values: { date = '' }, records: dayRecords }) => {
+    // Sheet names cannot hold slashes
+    const sheet = workbook.addWorksheet(format(parseISO(date), 'dd-MM-yyyy'));
+    sheet.columns = SHIFT_COLUMNS.map(c => ({ width: c.width }));
+    addTitle(sheet, format(parseISO(date), 'EEEE, dd MMMM yyyy'), SHIFT_COLUMNS.length);
+    shiftCodes.forEach(code => {
+      const shiftRecords = dayRecords.filter(r => r.shift === code);
+      if (shiftRecords.length > 0) addShiftSection(sheet, shiftRecords, getShiftName(shifts, code));
+    });
+  });
+
+  return workbook;
+};
+
+export const downloadReportXlsx = async (options: ReportWorkbookOptions, fileName: string) => {
+  const workbook = await createReportWorkbook(options);
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: XLSX_MIME }), fileName);
+};
@@ -0,0 +1,75 @@
+import { GLOBAL_SETTINGS_ID, SETTINGS_TABLE, type SyncBackend, type SyncChange } from './sync-backend';
+
+// Route handlers under src/app/api/sync, backed by a SQLite file on the machine running the app
+const API_BASE = '/api/sync';
+
+const request = async (token: string, path: string, init?: RequestInit) => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init?.headers },
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Sync server responded with ${response.status}`);
+  }
+  return response.status === 204 ? null : response.json();
+};
+
+// token must match SYNC_TOKEN on the server
+export const createServerBackend = (token: string): SyncBackend => {
+  // One event stream serves every subscribed table and closes when the last listener leaves.
+  let events: EventSource | null = null;
+  const listeners = new Set<{ table: string; onChange: (change: SyncChange) => void; onError?: (error: unknown) => void }>();
+
+  const openEvents = () => {
+    if (events) return;
+    events = new EventSource(`${API_BASE}/events?${new URLSearchParams({ token })}`);
+    events.onmessage = (message) => {
+      const change: SyncChange = JSON.parse(message.data);
+      listeners.forEach(listener => {
+        if (listener.table === change.table) listener.onChange(change);
+      });
+    };
+    events.onerror = (error) => {
+      listeners.forEach(listener => listener.onError?.(error));
+    };
+  };
+
+  const fetchOne = (table: string, id: string) => request(token, `/${table}?id=${encodeURIComponent(id)}`);
+
+  const upsert = async (table: string, row: { id: string }) => {
+    await request(token, `/${table}`, { method: 'PUT', body: JSON.stringify(row) });
+  };
+
+  return {
+    id: 'server',
+    fetchPage: (table, { since, offset, limit }) => {
+      const params = new URLSearchParams({ offset: String(offset), limit: String(limit) });
+      if (since) params.set('since', since);
+      return request(token, `/${table}?${params}`);
+    },
+    fetchOne,
+    upsert,
+    delete: async (table, id) => {
+      await request(token, `/${table}?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+    deleteAll: async (table) => {
+      await request(token, `/${table}?all=1`, { method: 'DELETE' });
+    },
+    subscribe: (table, onChange, onError) => {
+      const listener = { table, onChange, onError };
+      listeners.add(listener);
+      openEvents();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && events) {
+          events.close();
+          events = null;
+        }
+      };
+    },
+    getSettings: () => fetchOne(SETTINGS_TABLE, GLOBAL_SETTINGS_ID),
+    putSettings: (row) => upsert(SETTINGS_TABLE, { ...row, id: GLOBAL_SETTINGS_ID }),
+  };
+};
@@ -0,0 +1,34 @@
+import type { LoomRecord, ShiftDefinition } from './types';
+import { timeToSeconds } from './calculations';
+
+export const getShiftName = (shifts: ShiftDefinition[], code: string): string => {
+  return shifts.find(s => s.code === code)?.name ?? code;
+};
+
+export const findShiftByScannerLetter = (shifts: ShiftDefinition[], letter: string): ShiftDefinition | undefined => {
+  const normalized = letter.trim().toUpperCase();
+  return shifts.find(s => s.scannerLetter.trim().toUpperCase() === normalized);
+};
+
+// The shift running at a given time of day. Handles shifts that cross midnight.
+export const getShiftAt = (shifts: ShiftDefinition[], time: string): ShiftDefinition | undefined => {
+  const now = timeToSeconds(time);
+  return shifts.find(s => {
+    const start = timeToSeconds(s.startTime);
+    const end = timeToSeconds(s.endTime);
+    return start <= end ? now >= start && now < end : now >= start || now < end;
+  });
+};
+
+// Defined shift codes in order, followed by any codes only found on records
+// (e.g. from before the shift definitions were changed).
+export const getShiftCodesInUse = (shifts: ShiftDefinition[], records: LoomRecord[]): string[] => {
+  const defined = shifts.map(s => s.code);
+  const extra = Array.from(new Set(records.map(r => r.shift))).filter(code => !defined.includes(code)).sort();
+  return [...defined, ...extra];
+};
+
+export const getUndefinedShiftCodes = (shifts: ShiftDefinition[], records: LoomRecord[]): string[] => {
+  const defined = new Set(shifts.map(s => s.code));
+  return Array.from(new Set(records.map(r => r.shift))).filter(code => !defined.has(code)).sort();
+};
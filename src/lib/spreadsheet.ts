@@ -0,0 +1,54 @@
+import { format } from 'date-fns';
+import { parseCsv, type SheetRow } from './csv';
+import { secondsToTime } from './calculations';
+
+// Excel counts days from 30 Dec 1899; cells formatted as times hold only a fraction of a day past it.
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+// Any "date" before this is a time or duration cell rather than a calendar date
+const EXCEL_DURATION_LIMIT_MS = Date.UTC(1900, 0, 31);
+
+const isSpreadsheetFile = (file: File) => /\.xlsx$/i.test(file.name);
+
+// Dates come out as DD/MM/YYYY and time cells as HH:MM:SS, the way they show in the sheet.
+const cellToText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    if (value.getTime() < EXCEL_DURATION_LIMIT_MS) {
+      return secondsToTime((value.getTime() - EXCEL_EPOCH_MS) / 1000);
+    }
+    // Excel dates carry no timezone; read them back in UTC so the day does not shift
+    return format(new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()), 'dd/MM/yyyy');
+  }
+  if (typeof value === 'object') {
+    // Formula cells hold their last result; rich text is split into runs
+    if ('result' in value) return cellToText((value as { result: unknown }).result);
+    if ('richText' in value) return (value as { richText: { text: string }[] }).richText.map(run => run.text).join('');
+    if ('text' in value) return String((value as { text: unknown }).text);
+  }
+  return String(value).trim();
+};
+
+// Rows of the first worksheet as text, from a .csv or .xlsx file. Empty rows are left out
+// but the others keep their row numbers from the sheet.
+export const readSpreadsheet = async (file: File): Promise<SheetRow[]> => {
+  if (!isSpreadsheetFile(file)) {
+    return parseCsv(await file.text()).map(row => ({ ...row, cells: row.cells.map(cell => cell.trim()) }));
+  }
+
+  // Loaded on demand; only the import and export screens need it
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      cells[colNumber - 1] = cellToText(cell.value);
+    });
+    rows.push({ rowNumber, cells: Array.from(cells, cell => cell ?? '') });
+  });
+  return rows;
+};
@@ -0,0 +1,87 @@
+import Database from 'better-sqlite3';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { SYNC_TABLES, type PageQuery, type SyncChange } from './sync-backend';
+
+// Server only: the self-hosted sync backend keeps every table in one SQLite file.
+// Rows are stored as the same JSON objects the Supabase tables hold, so both backends share the mappers.
+
+const DB_PATH = process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'laxmi-shree.db');
+
+interface SqliteStore {
+  db: Database.Database;
+  changes: EventEmitter;
+}
+
+// Kept on globalThis so dev-server reloads reuse the open database and its listeners
+const globalStore = globalThis as typeof globalThis & { laxmiShreeStore?: SqliteStore };
+
+const openStore = (): SqliteStore => {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  const openedAt = new Date().toISOString();
+  SYNC_TABLES.forEach(table => {
+    db.exec(`CREATE TABLE IF NOT EXISTS "${table}" (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+    // Rows written before the store stamped them would never match a delta fetch
+    db.prepare(`UPDATE "${table}" SET data = json_set(data, '$.synced_at', ?) WHERE json_extract(data, '$.synced_at') IS NULL`).run(openedAt);
+  });
+  const changes = new EventEmitter();
+  changes.setMaxListeners(0);
+  return { db, changes };
+};
+
+const getStore = (): SqliteStore => {
+  if (!globalStore.laxmiShreeStore) globalStore.laxmiShreeStore = openStore();
+  return globalStore.laxmiShreeStore;
+};
+
+// Table names end up in SQL, so only known tables are accepted.
+export const isSyncTable = (table: string): boolean => SYNC_TABLES.includes(table);
+
+// Rows ordered by id, optionally only those written after `since`
+export const getRows = (table: string, { since, offset, limit }: PageQuery): any[] => {
+  const filter = since ? `WHERE json_extract(data, '$.synced_at') > ?` : '';
+  const params = since ? [since, limit, offset] : [limit, offset];
+  const rows = getStore().db.prepare(`SELECT data FROM "${table}" ${filter} ORDER BY id LIMIT ? OFFSET ?`).all(...params) as { data: string }[];
+  return rows.map(r => JSON.parse(r.data));
+};
+
+export const getRow = (table: string, id: string): any | null => {
+  const row = getStore().db.prepare(`SELECT data FROM "${table}" WHERE id = ?`).get(id) as { data: string } | undefined;
+  return row ? JSON.parse(row.data) : null;
+};
+
+// Merges into the stored row like a Postgres upsert, so a partial row keeps the other columns.
+// synced_at is always the server's clock, like the trigger on the Supabase tables, so delta
+// fetches see every write however late a device pushes it.
+export const upsertRow = (table: string, row: { id: string }) => {
+  const merged = { ...getRow(table, row.id), ...row, synced_at: new Date().toISOString() };
+  getStore().db.prepare(`INSERT INTO "${table}" (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`)
+    .run(row.id, JSON.stringify(merged));
+  emitChange({ type: 'upsert', table, id: row.id, row: merged });
+};
+
+export const deleteRow = (table: string, id: string) => {
+  getStore().db.prepare(`DELETE FROM "${table}" WHERE id = ?`).run(id);
+  emitChange({ type: 'delete', table, id });
+};
+
+export const deleteAllRows = (table: string) => {
+  const ids = getStore().db.prepare(`SELECT id FROM "${table}"`).all() as { id: string }[];
+  getStore().db.prepare(`DELETE FROM "${table}"`).run();
+  ids.forEach(({ id }) => emitChange({ type: 'delete', table, id }));
+};
+
+const emitChange = (change: SyncChange) => {
+  getStore().changes.emit('change', change);
+};
+
+export const onChange = (listener: (change: SyncChange) => void): (() => void) => {
+  const { changes } = getStore();
+  changes.on('change', listener);
+  return () => {
+    changes.off('change', listener);
+  };
+};
@@ -0,0 +1,59 @@
+import type { LoomRecord, StopBreakdown, StopCategory } from './types';
+
+export const STOP_CATEGORIES: { key: StopCategory; label: string }[] = [
+  { key: 'warp', label: 'Warp' },
+  { key: 'weft', label: 'Weft' },
+  { key: 'leno', label: 'Leno' },
+  { key: 'mechanical', label: 'Mechanical' },
+  { key: 'electrical', label: 'Electrical' },
+  { key: 'other', label: 'Other' },
+];
+
+export const getStopBreakdownTotal = (breakdown?: StopBreakdown): number => {
+  if (!breakdown) return 0;
+  return STOP_CATEGORIES.reduce((sum, { key }) => sum + (breakdown[key] ?? 0), 0);
+};
+
+// Drops empty categories so records without a split keep no breakdown at all.
+export const compactStopBreakdown = (breakdown: StopBreakdown): StopBreakdown | undefined => {
+  const compact: StopBreakdown = {};
+  STOP_CATEGORIES.forEach(({ key }) => {
+    if (breakdown[key]) compact[key] = breakdown[key];
+  });
+  return Object.keys(compact).length > 0 ? compact : undefined;
+};
+
+export interface StopParetoEntry {
+  key: StopCategory | 'uncategorised';
+  label: string;
+  count: number;
+  cumulativePercent: number;
+}
+
+// Categories sorted by count with a running share of all stops. Stops that were not
+// split by category are shown as "Uncategorised" so the total still matches.
+export const buildStopPareto = (records: LoomRecord[]): StopParetoEntry[] => {
+  const counts = STOP_CATEGORIES.map(({ key, label }) => ({
+    key: key as StopParetoEntry['key'],
+    label,
+    count: records.reduce((sum, r) => sum + (r.stopBreakdown?.[key] ?? 0), 0),
+  }));
+  const uncategorised = records.reduce((sum, r) => sum + Math.max(0, r.stops - getStopBreakdownTotal(r.stopBreakdown)), 0);
+  counts.push({ key: 'uncategorised', label: 'Uncategorised', count: uncategorised });
+
+  const sorted = counts.filter(c => c.count > 0).sort((a, b) => b.count - a.count);
+  const total = sorted.reduce((sum, c) => sum + c.count, 0);
+  let running = 0;
+  return sorted.map(c => {
+    running += c.count;
+    return { ...c, cumulativePercent: total > 0 ? (running / total) * 100 : 0 };
+  });
+};
+
+export const formatStopBreakdown = (breakdown?: StopBreakdown): string => {
+  if (!breakdown) return '';
+  return STOP_CATEGORIES
+    .filter(({ key }) => breakdown[key])
+    .map(({ key, label }) => `${label} ${breakdown[key]}`)
+    .join(', ');
+};
@@ -22,3 +22,96 @@ export function saveToLocalStorage<T>(key: string, value: T): void {
     console.warn(`Error setting localStorage key "${key}":`, error);
   }
 }
+
+// Records outgrow localStorage's quota, so they live in IndexedDB, one entry per record.
+const DB_NAME = 'laxmi-shree';
+const DB_VERSION = 1;
+const RECORDS_STORE = 'records';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof window === 'undefined' || !window.indexedDB) {
+        reject(new Error('IndexedDB is not available.'));
+        return;
+      }
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+        store.createIndex('date', 'date');
+        store.createIndex('machineNo', 'machineNo');
+        store.createIndex('shift', 'shift');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again rather than caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function runRecordsTransaction(mode: IDBTransactionMode, work: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(RECORDS_STORE, mode);
+    work(transaction.objectStore(RECORDS_STORE));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getAllRecords<T>(): Promise<T[]> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(RECORDS_STORE, 'readonly').objectStore(RECORDS_STORE).getAll() as IDBRequest<T[]>);
+}
+
+export type RecordIndex = 'date' | 'machineNo' | 'shift';
+
+// Looks records up through one of the store's indexes, e.g. every record of a date or a machine.
+export async function getRecordsByIndex<T>(index: RecordIndex, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+  const db = await openDatabase();
+  const store = db.transaction(RECORDS_STORE, 'readonly').objectStore(RECORDS_STORE);
+  return requestToPromise(store.index(index).getAll(query) as IDBRequest<T[]>);
+}
+
+export async function putRecords<T>(records: T[]): Promise<void> {
+  if (records.length === 0) return;
+  await runRecordsTransaction('readwrite', store => records.forEach(record => store.put(record)));
+}
+
+export async function deleteRecords(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await runRecordsTransaction('readwrite', store => ids.forEach(id => store.delete(id)));
+}
+
+// Moves records saved by older versions out of localStorage. The old key is only removed once the copy succeeded.
+export async function loadRecordsWithMigration<T>(legacyKey: string): Promise<T[]> {
+  const legacyRecords = getFromLocalStorage<T[] | null>(legacyKey, null);
+  if (legacyRecords) {
+    await putRecords(legacyRecords);
+    window.localStorage.removeItem(legacyKey);
+  }
+  return getAllRecords<T>();
+}
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
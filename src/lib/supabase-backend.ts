@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js';
+import { GLOBAL_SETTINGS_ID, SETTINGS_TABLE, type SyncBackend } from './sync-backend';
+
+// Supabase refuses a delete without a filter, so clearing a table excludes an id no row has
+const NIL_ID = '00000000-0000-0000-0000-000000000000';
+
+export const createSupabaseBackend = (url: string, key: string): SyncBackend => {
+  const client = createClient(url, key);
+
+  const fetchOne = async (table: string, id: string) => {
+    const { data, error } = await client.from(table).select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  };
+
+  const upsert = async (table: string, row: { id: string }) => {
+    const { error } = await client.from(table).upsert(row, { onConflict: 'id' });
+    if (error) throw error;
+  };
+
+  return {
+    id: `supabase:${url}`,
+    fetchPage: async (table, { since, offset, limit }) => {
+      let query = client.from(table).select('*');
+      if (since) query = query.gt('synced_at', since);
+      const { data, error } = await query.order('id').range(offset, offset + limit - 1);
+      if (error) throw error;
+      return data || [];
+    },
+    fetchOne,
+    upsert,
+    delete: async (table, id) => {
+      const { error } = await client.from(table).delete().eq('id', id);
+      if (error) throw error;
+    },
+    deleteAll: async (table) => {
+      const { error } = await client.from(table).delete().neq('id', NIL_ID);
+      if (error) throw error;
+    },
+    subscribe: (table, onChange, onError) => {
+      const channel = client.channel(`${table}-channel`)
+        .on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+          if (payload.eventType === 'DELETE') {
+            onChange({ type: 'delete', table, id: (payload.old as any).id });
+          } else {
+            onChange({ type: 'upsert', table, id: (payload.new as any).id, row: payload.new });
+          }
+        })
+        .subscribe((status, err) => {
+          if (err) onError?.(err);
+        });
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+    getSettings: () => fetchOne(SETTINGS_TABLE, GLOBAL_SETTINGS_ID),
+    putSettings: (row) => upsert(SETTINGS_TABLE, { ...row, id: GLOBAL_SETTINGS_ID }),
+  };
+};
@@ -0,0 +1,237 @@
+import type { LoomRecord, Machine, Quality, Operator, OperatorAssignment, WageDeduction, DowntimeEvent, Beam, AppSettings } from './types';
+
+// Supabase tables use snake_case columns; the app uses camelCase models.
+
+export const recordToRow = (record: LoomRecord) => ({
+  id: record.id,
+  date: record.date,
+  time: record.time,
+  shift: record.shift,
+  machine_no: record.machineNo,
+  stops: record.stops,
+  stop_breakdown: record.stopBreakdown ?? null,
+  weft_meter: record.weftMeter,
+  total: record.total,
+  run: record.run,
+  quality_id: record.qualityId ?? null,
+  operator_id: record.operatorId ?? null,
+  counter_reading: record.counterReading ?? null,
+  version: record.version ?? 1,
+  updated_at: record.updatedAt ?? null,
+  deleted_at: record.deletedAt ?? null,
+});
+
+export const rowToRecord = (row: any): LoomRecord => ({
+  id: row.id,
+  date: row.date,
+  time: row.time,
+  shift: row.shift,
+  machineNo: row.machine_no,
+  stops: row.stops,
+  stopBreakdown: row.stop_breakdown ?? undefined,
+  weftMeter: row.weft_meter,
+  total: row.total,
+  run: row.run,
+  qualityId: row.quality_id ?? undefined,
+  operatorId: row.operator_id ?? undefined,
+  counterReading: row.counter_reading ?? undefined,
+  version: row.version ?? undefined,
+  updatedAt: row.updated_at ?? undefined,
+  deletedAt: row.deleted_at ?? undefined,
+});
+
+// Only shared settings are stored in the cloud; keys and URLs stay on the device.
+export const settingsToRow = (settings: AppSettings) => ({
+  total_machines: settings.totalMachines,
+  low_efficiency_threshold: settings.lowEfficiencyThreshold,
+  whatsapp_number: settings.whatsAppNumber,
+  message_template: settings.messageTemplate,
+  shifts: settings.shifts,
+  reading_mode: settings.readingMode,
+  payroll: settings.payroll,
+});
+
+// Columns missing from older settings tables are left out so local values are kept.
+export const rowToSettings = (row: any): Partial<AppSettings> => {
+  const settings: Partial<AppSettings> = {
+    totalMachines: row.total_machines,
+    lowEfficiencyThreshold: row.low_efficiency_threshold,
+    whatsAppNumber: row.whatsapp_number,
+    messageTemplate: row.message_template,
+  };
+  if (Array.isArray(row.shifts) && row.shifts.length > 0) settings.shifts = row.shifts;
+  if (row.reading_mode) settings.readingMode = row.reading_mode;
+  if (row.payroll) settings.payroll = row.payroll;
+  return settings;
+};
+
+export const machineToRow = (machine: Machine) => ({
+  id: machine.id,
+  machine_no: machine.machineNo,
+  shed: machine.shed,
+  make_model: machine.makeModel,
+  reed_width: machine.reedWidth,
+  active: machine.active,
+  commissioned_on: machine.commissionedOn || null,
+  quality_id: machine.qualityId ?? null,
+});
+
+export const rowToMachine = (row: any): Machine => ({
+  id: row.id,
+  machineNo: row.machine_no,
+  shed: row.shed ?? '',
+  makeModel: row.make_model ?? '',
+  reedWidth: row.reed_width ?? 0,
+  active: row.active ?? true,
+  commissionedOn: row.commissioned_on ?? '',
+  qualityId: row.quality_id ?? undefined,
+});
+
+export const qualityToRow = (quality: Quality) => ({
+  id: quality.id,
+  name: quality.name,
+  picks_per_inch: quality.picksPerInch,
+  reed: quality.reed,
+  width: quality.width,
+  expected_rpm: quality.expectedRpm,
+  target_efficiency: quality.targetEfficiency,
+  wage_rate: quality.wageRate,
+  wage_basis: quality.wageBasis,
+  active: quality.active,
+});
+
+export const rowToQuality = (row: any): Quality => ({
+  id: row.id,
+  name: row.name,
+  picksPerInch: row.picks_per_inch ?? 0,
+  reed: row.reed ?? 0,
+  width: row.width ?? 0,
+  expectedRpm: row.expected_rpm ?? 0,
+  targetEfficiency: row.target_efficiency ?? 0,
+  wageRate: row.wage_rate ?? 0,
+  wageBasis: row.wage_basis ?? 'meter',
+  active: row.active ?? true,
+});
+
+export const operatorToRow = (operator: Operator) => ({
+  id: operator.id,
+  name: operator.name,
+  phone: operator.phone,
+  active: operator.active,
+});
+
+export const rowToOperator = (row: any): Operator => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone ?? '',
+  active: row.active ?? true,
+});
+
+export const operatorAssignmentToRow = (assignment: OperatorAssignment) => ({
+  id: assignment.id,
+  shift: assignment.shift,
+  machine_no: assignment.machineNo,
+  operator_id: assignment.operatorId,
+});
+
+export const rowToOperatorAssignment = (row: any): OperatorAssignment => ({
+  id: row.id,
+  shift: row.shift,
+  machineNo: row.machine_no,
+  operatorId: row.operator_id,
+});
+
+export const wageDeductionToRow = (deduction: WageDeduction) => ({
+  id: deduction.id,
+  operator_id: deduction.operatorId,
+  date: deduction.date,
+  amount: deduction.amount,
+  reason: deduction.reason,
+});
+
+export const rowToWageDeduction = (row: any): WageDeduction => ({
+  id: row.id,
+  operatorId: row.operator_id,
+  date: row.date,
+  amount: row.amount ?? 0,
+  reason: row.reason ?? '',
+});
+
+export const downtimeEventToRow = (event: DowntimeEvent) => ({
+  id: event.id,
+  date: event.date,
+  shift: event.shift,
+  machine_no: event.machineNo,
+  start_time: event.startTime,
+  end_time: event.endTime,
+  reason: event.reason,
+  note: event.note,
+});
+
+export const rowToDowntimeEvent = (row: any): DowntimeEvent => ({
+  id: row.id,
+  date: row.date,
+  shift: row.shift,
+  machineNo: row.machine_no,
+  startTime: (row.start_time ?? '').substring(0, 5),
+  endTime: (row.end_time ?? '').substring(0, 5),
+  reason: row.reason ?? 'other',
+  note: row.note ?? '',
+});
+
+export const beamToRow = (beam: Beam) => ({
+  id: beam.id,
+  beam_no: beam.beamNo,
+  machine_no: beam.machineNo,
+  quality_id: beam.qualityId ?? null,
+  length: beam.length,
+  gaiting_date: beam.gaitingDate,
+  finished_date: beam.finishedDate ?? null,
+});
+
+export const rowToBeam = (row: any): Beam => ({
+  id: row.id,
+  beamNo: row.beam_no,
+  machineNo: row.machine_no,
+  qualityId: row.quality_id ?? undefined,
+  length: row.length ?? 0,
+  gaitingDate: row.gaiting_date,
+  finishedDate: row.finished_date ?? undefined,
+});
+
+// Master data synced alongside records. Each collection maps to one Supabase table.
+export interface SyncedEntityMap {
+  machines: Machine;
+  qualities: Quality;
+  operators: Operator;
+  operatorAssignments: OperatorAssignment;
+  wageDeductions: WageDeduction;
+  downtimeEvents: DowntimeEvent;
+  beams: Beam;
+}
+
+export type SyncedCollection = keyof SyncedEntityMap;
+
+export const SYNCED_COLLECTIONS: { [K in SyncedCollection]: {
+  table: string;
+  toRow: (entity: SyncedEntityMap[K]) => object;
+  fromRow: (row: any) => SyncedEntityMap[K];
+} } = {
+  machines: { table: 'machines', toRow: machineToRow, fromRow: rowToMachine },
+  qualities: { table: 'qualities', toRow: qualityToRow, fromRow: rowToQuality },
+  operators: { table: 'operators', toRow: operatorToRow, fromRow: rowToOperator },
+  operatorAssignments: { table: 'operator_assignments', toRow: operatorAssignmentToRow, fromRow: rowToOperatorAssignment },
+  wageDeductions: { table: 'wage_deductions', toRow: wageDeductionToRow, fromRow: rowToWageDeduction },
+  downtimeEvents: { table: 'downtime_events', toRow: downtimeEventToRow, fromRow: rowToDowntimeEvent },
+  beams: { table: 'beams', toRow: beamToRow, fromRow: rowToBeam },
+};
+
+export const entityToRow = <K extends SyncedCollection>(collection: K, entity: SyncedEntityMap[K]): object => {
+  const toRow = SYNCED_COLLECTIONS[collection].toRow as (entity: SyncedEntityMap[K]) => object;
+  return toRow(entity);
+};
+
+export const rowToEntity = <K extends SyncedCollection>(collection: K, row: any): SyncedEntityMap[K] => {
+  const fromRow = SYNCED_COLLECTIONS[collection].fromRow as (row: any) => SyncedEntityMap[K];
+  return fromRow(row);
+};
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Server only: every sync route needs the shared token set as SYNC_TOKEN on the server.
+// Devices send it as a bearer token, or as ?token= from EventSource, which cannot set headers.
+// Without SYNC_TOKEN the routes refuse every request rather than run open.
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const getRequestToken = (request: NextRequest): string | null => {
+  const header = request.headers.get('authorization');
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length);
+  return request.nextUrl.searchParams.get('token');
+};
+
+// The error response for a request without the right token, or null when it may go ahead
+export const checkSyncToken = (request: NextRequest): NextResponse | null => {
+  const expected = process.env.SYNC_TOKEN;
+  if (!expected) {
+    return NextResponse.json({ error: 'Sync is disabled until SYNC_TOKEN is set on the server.' }, { status: 503 });
+  }
+  const token = getRequestToken(request);
+  // Compared as digests so the check takes the same time whatever the token's length
+  if (!token || !timingSafeEqual(digest(token), digest(expected))) {
+    return NextResponse.json({ error: 'Invalid sync token.' }, { status: 401 });
+  }
+  return null;
+};
@@ -0,0 +1,64 @@
+import { SYNCED_COLLECTIONS } from './supabase-mappers';
+
+export const RECORDS_TABLE = 'loom_records';
+export const SETTINGS_TABLE = 'settings';
+export const GLOBAL_SETTINGS_ID = 'global_settings';
+
+// Every table a backend has to store. Rows are the snake_case objects built by the mappers.
+export const SYNC_TABLES: string[] = [
+  RECORDS_TABLE,
+  SETTINGS_TABLE,
+  ...Object.values(SYNCED_COLLECTIONS).map(c => c.table),
+];
+
+export type SyncChange =
+  | { type: 'upsert'; table: string; id: string; row: any }
+  | { type: 'delete'; table: string; id: string };
+
+// Rows per request; Supabase returns at most 1000 rows per query by default
+export const SYNC_PAGE_SIZE = 1000;
+
+// Postgres stamps a write with the time its transaction began, so a slow write can commit
+// with a time just before the cursor. A delta fetch reaches back a little to pick those up.
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+export interface PageQuery {
+  since?: string; // only rows with synced_at, set by the server on every write, after this ISO timestamp
+  offset: number;
+  limit: number;
+}
+
+// Where synced data lives. Implementations throw when the backend cannot be reached or rejects a write.
+export interface SyncBackend {
+  id: string; // identifies the data source, so sync cursors from another backend are not reused
+  // Rows ordered by id, so consecutive pages neither skip nor repeat rows
+  fetchPage: (table: string, query: PageQuery) => Promise<any[]>;
+  fetchOne: (table: string, id: string) => Promise<any | null>;
+  upsert: (table: string, row: { id: string }) => Promise<void>;
+  delete: (table: string, id: string) => Promise<void>;
+  deleteAll: (table: string) => Promise<void>;
+  // Reports changes made by any device. Returns a function that stops listening.
+  subscribe: (table: string, onChange: (change: SyncChange) => void, onError?: (error: unknown) => void) => () => void;
+  getSettings: () => Promise<any | null>;
+  putSettings: (row: object) => Promise<void>;
+}
+
+export const fetchAllPages = async (backend: SyncBackend, table: string, since?: string): Promise<any[]> => {
+  const query = since ? { since: new Date(new Date(since).getTime() - CURSOR_OVERLAP_MS).toISOString() } : {};
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += SYNC_PAGE_SIZE) {
+    const page = await backend.fetchPage(table, { ...query, offset, limit: SYNC_PAGE_SIZE });
+    rows.push(...page);
+    if (page.length < SYNC_PAGE_SIZE) return rows;
+  }
+};
+
+// The newest synced_at among fetched rows becomes the cursor for the next delta fetch.
+// Timestamps are compared as dates since Postgres and the app format them differently.
+export const advanceCursor = (cursor: string | undefined, rows: { synced_at?: string | null }[]): string | undefined => {
+  const latest = rows.reduce((max, row) => {
+    const time = row.synced_at ? new Date(row.synced_at).getTime() : NaN;
+    return Number.isNaN(time) ? max : Math.max(max, time);
+  }, cursor ? new Date(cursor).getTime() : -Infinity);
+  return Number.isFinite(latest) ? new Date(latest).toISOString() : undefined;
+};
@@ -0,0 +1,89 @@
+import type { LoomRecord } from './types';
+import type { SyncedCollection, SyncedEntityMap } from './supabase-mappers';
+
+export type PendingSyncOperation =
+    | { type: 'add' | 'update'; record: LoomRecord }
+    | { type: 'delete'; id: string }
+    | { type: 'upsert-entity'; collection: SyncedCollection; entity: SyncedEntityMap[SyncedCollection] }
+    | { type: 'delete-entity'; collection: SyncedCollection; id: string };
+
+// Failed pushes of a queued operation, keyed by the operation's id
+export interface SyncAttempt {
+  attempts: number;
+  lastError: string;
+  lastAttemptAt: string; // ISO
+  nextRetryAt: string; // ISO
+}
+
+// The first retry comes after this long, doubling with each failure up to the maximum
+export const SYNC_RETRY_BASE_MS = 15 * 1000;
+const SYNC_RETRY_MAX_MS = 30 * 60 * 1000;
+
+export const getOperationId = (op: PendingSyncOperation): string => {
+  switch (op.type) {
+    case 'add':
+    case 'update':
+      return op.record.id;
+    case 'upsert-entity':
+      return op.entity.id;
+    default:
+      return op.id;
+  }
+};
+
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(SYNC_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), SYNC_RETRY_MAX_MS);
+};
+
+export const recordFailedAttempt = (previous: SyncAttempt | undefined, error: unknown, now: Date = new Date()): SyncAttempt => {
+  const attempts = (previous?.attempts ?? 0) + 1;
+  return {
+    attempts,
+    lastError: getErrorMessage(error),
+    lastAttemptAt: now.toISOString(),
+    nextRetryAt: new Date(now.getTime() + getRetryDelay(attempts)).toISOString(),
+  };
+};
+
+export const isRetryDue = (attempt: SyncAttempt | undefined, now: Date = new Date()): boolean => {
+  return !attempt || new Date(attempt.nextRetryAt) <= now;
+};
+
+// Supabase errors are plain objects with a message rather than Error instances
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+};
+
+const COLLECTION_LABELS: Record<SyncedCollection, string> = {
+  machines: 'Machine',
+  qualities: 'Quality',
+  operators: 'Operator',
+  operatorAssignments: 'Roster slot',
+  wageDeductions: 'Wage deduction',
+  downtimeEvents: 'Downtime event',
+  beams: 'Beam',
+};
+
+const getEntityLabel = (entity: SyncedEntityMap[SyncedCollection]): string => {
+  if ('name' in entity) return entity.name;
+  if ('beamNo' in entity) return `Beam ${entity.beamNo}`;
+  if ('machineNo' in entity) return `M/C ${entity.machineNo}`;
+  return `${entity.date} ${entity.reason}`;
+};
+
+export const describeOperation = (op: PendingSyncOperation): { action: string; target: string } => {
+  switch (op.type) {
+    case 'add':
+      return { action: 'Add record', target: `M/C ${op.record.machineNo} ${op.record.date} ${op.record.shift}` };
+    case 'update':
+      return { action: op.record.deletedAt ? 'Delete record' : 'Update record', target: `M/C ${op.record.machineNo} ${op.record.date} ${op.record.shift}` };
+    case 'delete':
+      return { action: 'Purge record', target: op.id };
+    case 'upsert-entity':
+      return { action: `Save ${COLLECTION_LABELS[op.collection].toLowerCase()}`, target: getEntityLabel(op.entity) };
+    case 'delete-entity':
+      return { action: `Delete ${COLLECTION_LABELS[op.collection].toLowerCase()}`, target: op.id };
+  }
+};
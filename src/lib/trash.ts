@@ -0,0 +1,21 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import type { LoomRecord } from './types';
+
+// Deleted records stay restorable for this long, then their tombstones are purged everywhere.
+export const TRASH_RETENTION_DAYS = 30;
+
+export const markDeleted = (record: LoomRecord): LoomRecord => ({ ...record, deletedAt: new Date().toISOString() });
+
+export const markRestored = (record: LoomRecord): LoomRecord => {
+  const { deletedAt, ...restored } = record;
+  return restored;
+};
+
+export const getTrashDaysLeft = (record: LoomRecord, now: Date = new Date()): number => {
+  if (!record.deletedAt) return TRASH_RETENTION_DAYS;
+  return Math.max(0, differenceInCalendarDays(addDays(parseISO(record.deletedAt), TRASH_RETENTION_DAYS), now));
+};
+
+export const isPurgeable = (record: LoomRecord, now: Date = new Date()): boolean => {
+  return !!record.deletedAt && getTrashDaysLeft(record, now) === 0;
+};
@@ -2,31 +2,167 @@ export interface LoomRecord {
   id: string;
   date: string; // YYYY-MM-DD
   time: string; // HH:MM
-  shift: 'Day' | 'Night';
+  shift: string; // ShiftDefinition code
   machineNo: string;
   stops: number;
+  stopBreakdown?: StopBreakdown; // Stops by category; may add up to less than stops when the display does not split them all
   weftMeter: number;
   total: string; // HH:MM:SS
   run: string; // HH:MM:SS
+  qualityId?: string; // Quality running on the machine during this shift
+  operatorId?: string; // Weaver who ran the machine during this shift
+  counterReading?: CounterReading; // Raw display counters in cumulative mode; the fields above are then deltas from the previous reading
+  version?: number; // Bumped on every edit; an edit is based on the version it was made from
+  updatedAt?: string; // ISO timestamp of the last edit, decides which of two conflicting edits wins
+  deletedAt?: string; // ISO timestamp; deleted records are kept as tombstones so the delete reaches every device
   user_id?: string; // Kept for potential future use but not actively used for auth
 }
 
+// An edit made on this device that raced with a different edit of the same record in the cloud.
+// The newer edit is applied straight away; both are kept until someone confirms or swaps the choice.
+export interface SyncConflict {
+  id: string; // id of the record in conflict
+  local: LoomRecord;
+  remote: LoomRecord;
+  applied: 'local' | 'remote';
+  detectedAt: string; // ISO timestamp
+}
+
+// Loom display values as read, counting up since the last counter reset.
+export interface CounterReading {
+  weftMeter: number;
+  stops: number;
+  total: string; // HH:MM:SS
+  run: string; // HH:MM:SS
+}
+
+// 'shift': the display is reset every shift and shows per-shift values.
+// 'cumulative': the display keeps counting and per-shift values are derived from consecutive readings.
+export type ReadingMode = 'shift' | 'cumulative';
+
+export type StopCategory = 'warp' | 'weft' | 'leno' | 'mechanical' | 'electrical' | 'other';
+
+export type StopBreakdown = Partial<Record<StopCategory, number>>;
+
 export interface CalculatedLoomRecord extends LoomRecord {
   efficiency: number;
   hr: number; // Weft Meter / Run Time in hours
   diff: string; // Total - Run
   lossPrd: number; // diff in hours * hr
+  expectedPrd: number; // meters the quality should produce at target efficiency over the total time, 0 without a quality
+  prdAchievement: number; // weftMeter as % of expectedPrd
 }
 
+export interface Machine {
+  id: string;
+  machineNo: string; // Display number used on records, e.g. "101"
+  shed: string; // Shed or section name
+  makeModel: string;
+  reedWidth: number; // inches, 0 when unknown
+  active: boolean; // Retired looms stay in history but are hidden from entry screens
+  commissionedOn: string; // YYYY-MM-DD, empty when unknown
+  qualityId?: string; // Quality currently on the loom, used as the default for new records
+}
+
+export interface Quality {
+  id: string;
+  name: string; // Sort name
+  picksPerInch: number;
+  reed: number;
+  width: number; // inches
+  expectedRpm: number;
+  targetEfficiency: number; // %
+  wageRate: number; // Weaver pay per meter or per 1000 picks, 0 to use the default rate
+  wageBasis: WageBasis;
+  active: boolean;
+}
+
+export type WageBasis = 'meter' | 'kpick';
+
+export interface Operator {
+  id: string;
+  name: string;
+  phone: string;
+  active: boolean; // Operators who have left stay in history but are hidden from entry screens
+}
+
+// Standing roster: who runs a machine on a given shift. New records take their operator from here.
+export interface OperatorAssignment {
+  id: string; // `${shift}:${machineNo}`
+  shift: string; // ShiftDefinition code
+  machineNo: string;
+  operatorId: string;
+}
+
+export type DowntimeReason = 'beam-change' | 'yarn-shortage' | 'power-cut' | 'repair' | 'no-weaver' | 'other';
+
+// A stoppage logged against a machine's shift, explaining part of the record's diff.
+export interface DowntimeEvent {
+  id: string;
+  date: string; // YYYY-MM-DD of the shift, even when the stoppage ran past midnight
+  shift: string; // ShiftDefinition code
+  machineNo: string;
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM, earlier than startTime when it crosses midnight
+  reason: DowntimeReason;
+  note: string;
+}
+
+// A warp beam gaited on a loom. It is consumed by the weft meters of that machine's records
+// from its gaiting date until the next beam is gaited or it is marked finished.
+export interface Beam {
+  id: string;
+  beamNo: string;
+  machineNo: string;
+  qualityId?: string;
+  length: number; // meters of warp on the beam
+  gaitingDate: string; // YYYY-MM-DD
+  finishedDate?: string; // YYYY-MM-DD, set when the beam is cut off without a successor
+}
+
+export interface WageDeduction {
+  id: string;
+  operatorId: string;
+  date: string; // YYYY-MM-DD, decides which pay period the deduction falls in
+  amount: number;
+  reason: string;
+}
+
+export interface BonusSlab {
+  minEfficiency: number; // %
+  amount: number; // paid per shift that reaches the threshold
+}
+
+export interface PayrollSettings {
+  defaultRatePerMeter: number; // Used for records without a quality or with a quality that has no rate
+  bonusSlabs: BonusSlab[];
+}
+
+export interface ShiftDefinition {
+  code: string; // Stored on records, e.g. "Day" or "A"
+  name: string;
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM, may be earlier than startTime for shifts crossing midnight
+  scannerLetter: string; // Letter shown on the loom display for this shift
+}
+
+// Where synced data is kept: a Supabase project, or this app's own server with a SQLite file
+export type SyncBackendType = 'supabase' | 'server';
+
 export interface AppSettings {
   id?: string; // 'global_settings'
-  totalMachines: number;
+  totalMachines: number; // Only used to seed the machine registry on first run
   lowEfficiencyThreshold: number;
   geminiApiKey: string;
   whatsAppNumber: string;
   messageTemplate: string;
   supabaseUrl: string;
   supabaseKey: string;
+  syncBackend: SyncBackendType;
+  syncToken: string; // Must match SYNC_TOKEN on the server backend
+  shifts: ShiftDefinition[];
+  readingMode: ReadingMode;
+  payroll: PayrollSettings;
   user_id?: string; // Kept for potential future use but not actively used for auth
 }
 
@@ -39,4 +175,15 @@ export const DEFAULT_SETTINGS: AppSettings = {
   messageTemplate: 'Record Details:\nDate: {{date}}\nTime: {{time}}\nShift: {{shift}}\nMachine: {{machineNo}}\nEfficiency: {{efficiency}}%',
   supabaseUrl: '',
   supabaseKey: '',
+  syncBackend: 'supabase',
+  syncToken: '',
+  shifts: [
+    { code: 'Day', name: 'Day', startTime: '08:00', endTime: '20:00', scannerLetter: 'A' },
+    { code: 'Night', name: 'Night', startTime: '20:00', endTime: '08:00', scannerLetter: 'B' },
+  ],
+  readingMode: 'shift',
+  payroll: {
+    defaultRatePerMeter: 0,
+    bonusSlabs: [],
+  },
 };
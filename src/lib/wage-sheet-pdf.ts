@@ -0,0 +1,66 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import type { WageSheetRow } from './payroll';
+import { COLORS, FOOTER_HEIGHT, PAGE_MARGIN, PRIMARY, RUNNING_HEADER_HEIGHT, drawPageFurniture, drawTitleBlock, type AutoTableDoc } from './report-pdf';
+
+const TITLE = 'Laxmi Shree Wage Sheet';
+
+export interface WageSheetPdfOptions {
+  rows: WageSheetRow[];
+  dates: string[]; // every day of the pay period
+  totals: Omit<WageSheetRow, 'operatorId' | 'name' | 'days'>;
+  period: string; // the pay period label
+}
+
+// Operators down the side and the pay period's days across on landscape pages, with the
+// same columns and colours as the on-screen sheet. Headers repeat on every page.
+export const downloadWageSheetPdf = async ({ rows, dates, totals, period }: WageSheetPdfOptions, fileName: string) => {
+  const doc: AutoTableDoc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4', compress: true });
+
+  const startY = await drawTitleBlock(doc, TITLE, [period]);
+
+  autoTable(doc, {
+    startY,
+    theme: 'grid',
+    margin: { top: PAGE_MARGIN + RUNNING_HEADER_HEIGHT, bottom: PAGE_MARGIN + FOOTER_HEIGHT, left: PAGE_MARGIN, right: PAGE_MARGIN },
+    rowPageBreak: 'avoid',
+    showHead: 'everyPage',
+    showFoot: 'lastPage',
+    styles: { fontSize: 6, fontStyle: 'bold', cellPadding: 0.6, halign: 'center', lineColor: '#e5e7eb', lineWidth: 0.1 },
+    headStyles: { fillColor: '#f1f5f9', textColor: COLORS.gray },
+    footStyles: { fillColor: '#ede7f6', textColor: PRIMARY },
+    head: [[
+      { content: 'Operator', styles: { halign: 'left' } },
+      ...dates.map(date => format(parseISO(date), 'dd')),
+      'Shifts',
+      { content: 'Weft', styles: { textColor: COLORS.teal } },
+      'Earn',
+      { content: 'Bonus', styles: { textColor: COLORS.green } },
+      { content: 'Ded', styles: { textColor: COLORS.red } },
+      { content: 'Net', styles: { textColor: PRIMARY } },
+    ]],
+    body: rows.map(row => [
+      { content: row.name, styles: { textColor: COLORS.purple, halign: 'left' } },
+      ...dates.map(date => ({ content: row.days[date] ? row.days[date].toFixed(0) : '', styles: { textColor: COLORS.gray } })),
+      row.shifts,
+      { content: row.weftMeter.toFixed(1), styles: { textColor: COLORS.teal } },
+      row.earnings.toFixed(2),
+      { content: row.bonus.toFixed(2), styles: { textColor: COLORS.green } },
+      { content: row.deductions.toFixed(2), styles: { textColor: COLORS.red } },
+      { content: row.net.toFixed(2), styles: { textColor: PRIMARY } },
+    ]),
+    foot: [[
+      { content: 'Total', colSpan: dates.length + 1, styles: { halign: 'left' } },
+      totals.shifts,
+      totals.weftMeter.toFixed(1),
+      totals.earnings.toFixed(2),
+      totals.bonus.toFixed(2),
+      totals.deductions.toFixed(2),
+      totals.net.toFixed(2),
+    ]],
+  });
+
+  drawPageFurniture(doc, TITLE, period);
+  doc.save(fileName);
+};